@@ -3,38 +3,138 @@
 /**
  * Camera page — same flow as prodhacks-image-recognition:
  * upload pose image → extract skeleton → match on camera → Take picture (share/download).
- * No auto-capture, rear camera default, mobile viewport scaling.
+ * Opt-in auto-capture, rear camera default (flip to mirrored selfie camera), mobile viewport scaling.
  */
 
-import { useCallback, useEffect, useRef, useState, Suspense } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, Suspense } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { createClient } from '@/lib/supabase';
-import { saveGalleryPhoto } from '@/lib/storage';
+import { saveGalleryPhoto, saveGalleryVideo, type GalleryComparison } from '@/lib/storage';
+import { getPoseById, type PoseTemplate } from '@/lib/poses';
+import { MATCH_LEVEL_LABELS, MATCH_LEVELS, resolveMatchProfile, type MatchLevel } from '@/lib/match-profiles';
+import {
+  computePoseMatch,
+  getLimbRating,
+  type ImageSize,
+  type Landmark,
+  type LimbId,
+  type LimbRating,
+  type LimbScores,
+  type MatchMode,
+  type PoseLandmarks,
+  type PoseMatch,
+  mirrorLandmarks,
+} from '@/lib/pose-matching';
+import { getCorrectionPrompt } from '@/lib/pose-coaching';
+import { createLandmarkFilter, DEFAULT_ONE_EURO_PARAMS } from '@/lib/landmark-filter';
+import { takeShotList } from '@/lib/shot-list';
+import { VIDEO_MAX_DURATION_S } from '@/lib/video-analysis';
+import {
+  assignPeopleToSlots,
+  createGroupEstimator,
+  dedupePeople,
+  detectPeople,
+  getFrameStrips,
+  getSlotLabel,
+  MAX_GROUP_SIZE,
+  type GroupPoseEstimator,
+} from '@/lib/multi-pose';
+import { LEFT_EAR, NOSE, RIGHT_EAR } from '@/lib/head-pose';
+import {
+  getFramingPrompt,
+  getLiveBounds,
+  getPoseBounds,
+  getScreenRoll,
+  getSubjectBox,
+  getTiltPrompt,
+  TILT_WARN_DEGREES,
+  type Bounds,
+} from '@/lib/composition';
+import { CAPTURE_OUTPUT_LABELS, CAPTURE_OUTPUT_MODES, captureStill, toStillSpace, type CaptureOutputMode } from '@/lib/capture-output';
+import type { ComparisonInput } from '@/lib/comparison-export';
+import { shareOrDownload } from '@/lib/share';
+import { analyzeExposure, getLightingPrompt, type LightingWarning } from '@/lib/image-analysis';
+import {
+  applyBackground,
+  BACKGROUND_EFFECT_LABELS,
+  BACKGROUND_EFFECTS,
+  toSegmentationInput,
+  type BackgroundEffect,
+} from '@/lib/background-effects';
+import BurstReview, { type BurstFrame } from '@/components/BurstReview';
+import ClipReview from '@/components/ClipReview';
+import ComparisonExport from '@/components/ComparisonExport';
+import ShotListSummary from '@/components/ShotListSummary';
+import SkeletonEditor from '@/components/SkeletonEditor';
+import VideoAnalysis from '@/components/VideoAnalysis';
+import {
+  createMediaPipeEstimator,
+  type MediaPipeEstimatorOptions,
+  type PoseEstimator,
+  type SegmentationMask,
+} from '@/lib/pose-estimator';
+import { createMockEstimator, loadLandmarkFixture } from '@/lib/pose-estimator-mock';
+import { createWorkerEstimator, supportsWorkerEstimator } from '@/lib/pose-estimator-worker';
 import LoginRequiredModal from '@/components/LoginRequiredModal';
-
-// ---- Types (MediaPipe landmarks are normalized 0–1) ----
-type Landmark = { x: number; y: number; z?: number; visibility?: number };
-type PoseLandmarks = Landmark[] | null;
-
-// ---- Scoring & success (same as image-recognition) ----
-const KEY_LANDMARK_INDICES = [11, 12, 13, 14, 15, 16, 23, 24, 25, 26] as const;
-const SUCCESS_THRESHOLD = 78;
-const SUCCESS_HOLD_FRAMES = 4;
-const MIN_VISIBLE_LANDMARKS = 5;
-const CAM_W = 640;
-const CAM_H = 480;
-
-// ---- Position/distance guidance (only when match < GUIDANCE_MAX_MATCH) ----
+import { BURST_FRAME_COUNT, useBurst } from '@/hooks/use-burst';
+import { RECORD_MAX_MS, useClipRecording } from '@/hooks/use-clip-recording';
+import { useMatchSuccess } from '@/hooks/use-match-success';
+import { useSelfTimer } from '@/hooks/use-self-timer';
+import { useShotList } from '@/hooks/use-shot-list';
+import { useVideoAnalysis } from '@/hooks/use-video-analysis';
+
+// ---- Success: threshold and hold time come from the template's match profile (lib/match-profiles.ts) ----
+
+// ---- Auto-capture (opt-in): fires once success has held, then cools down ----
+const AUTO_CAPTURE_HOLD_MS = 1500;
+const AUTO_CAPTURE_COOLDOWN_MS = 5000;
+
+// ---- Position/distance guidance ----
+// Strict mode: only when match < GUIDANCE_MAX_MATCH. Aligned mode ignores framing in the
+// score, so framing hints show whenever the pose is not yet a success.
 const GUIDANCE_MAX_MATCH = 50;
 const CENTER_LEFT = 0.38;
 const CENTER_RIGHT = 0.62;
 const SHOULDER_WIDTH_TOO_BIG = 0.42;
 const SHOULDER_WIDTH_TOO_SMALL = 0.16;
 
-/** Position/distance hint from live pose (mirror-friendly). */
-function getGuidancePrompt(live: PoseLandmarks): string | null {
+// ---- Prompt rate limiting (framing hints + limb corrections) ----
+/** A new prompt must be proposed this many frames in a row before it shows. */
+const PROMPT_STABLE_FRAMES = 3;
+/** A shown prompt stays up at least this long before it can change. */
+const PROMPT_MIN_INTERVAL_MS = 1500;
+
+// ---- Lighting: histogram check on the live frame, auto exposure compensation where supported ----
+const EXPOSURE_SAMPLE_MS = 500;
+/** A warning must show up in this many samples in a row before we act on it. */
+const LIGHTING_STABLE_SAMPLES = 2;
+/** Smallest EV change per sample when the track's own step is finer. */
+const AUTO_EXPOSURE_MIN_STEP = 0.33;
+
+// ---- Inference stats (FPS / latency readout) ----
+const INFERENCE_STATS_WINDOW_MS = 1000;
+
+// ---- Comparison export: gallery photos keep the template (uploads downscaled) and both skeletons ----
+const STORED_TEMPLATE_MAX_SIZE = 640;
+
+type GuidanceContext = {
+  /** Template subject box (Frame guide on): framing is judged against it instead of the frame center. */
+  subjectBox: Bounds | null;
+  templateImageSize: ImageSize | null;
+  /** Screen roll in degrees (Level guide on). */
+  rollDegrees: number | null;
+};
+
+/** Tilt first, then position/distance hint from live pose (mirror-friendly). */
+function getGuidancePrompt(live: PoseLandmarks, { subjectBox, templateImageSize, rollDegrees }: GuidanceContext): string | null {
+  const tilt = getTiltPrompt(rollDegrees);
+  if (tilt) return tilt;
   if (!live?.length) return null;
+  if (subjectBox) {
+    const liveBounds = getLiveBounds(live, templateImageSize);
+    if (liveBounds) return getFramingPrompt(subjectBox, liveBounds);
+  }
   const L = 11, R = 12;
   const l = live[L], r = live[R];
   if (!l || !r) return null;
@@ -48,59 +148,39 @@ function getGuidancePrompt(live: PoseLandmarks): string | null {
   return null;
 }
 
-/** Match score 0–100 in letterbox space. */
-function computeMatchScore(
-  template: PoseLandmarks,
-  live: PoseLandmarks,
-  templateImageSize: { width: number; height: number } | null
-): number {
-  if (!template || !live) return 0;
-  const A_c = CAM_W / CAM_H;
-  const A_t = templateImageSize ? templateImageSize.width / templateImageSize.height : A_c;
-  let boxX: number, boxY: number, boxW: number, boxH: number;
-  if (A_t < A_c) {
-    boxH = CAM_H;
-    boxW = CAM_H * A_t;
-    boxX = (CAM_W - boxW) / 2;
-    boxY = 0;
-  } else {
-    boxW = CAM_W;
-    boxH = CAM_W / A_t;
-    boxX = 0;
-    boxY = (CAM_H - boxH) / 2;
-  }
-  let total = 0;
-  let count = 0;
-  for (const i of KEY_LANDMARK_INDICES) {
-    const t = template[i];
-    const l = live[i];
-    const tVis = t?.visibility ?? 1;
-    const lVis = l?.visibility ?? 1;
-    if (!t || !l || tVis < 0.5 || lVis < 0.5) continue;
-    const lx = (l.x * CAM_W - boxX) / boxW;
-    const ly = (l.y * CAM_H - boxY) / boxH;
-    const dx = t.x - lx;
-    const dy = t.y - ly;
-    total += Math.sqrt(dx * dx + dy * dy);
-    count++;
-  }
-  if (count < MIN_VISIBLE_LANDMARKS) return 0;
-  const avgDistance = total / count;
-  const normalized = Math.min(1, avgDistance / 0.42);
-  return Math.round(100 * (1 - normalized));
-}
+const LIMB_RATING_COLORS: Record<LimbRating, string> = {
+  good: 'rgba(52,211,153,0.8)',
+  close: 'rgba(251,191,36,0.8)',
+  off: 'rgba(248,113,113,0.8)',
+};
+
+/** HUD chips: each side's worst segment decides the chip color. */
+const LIMB_GROUPS: { label: string; limbs: LimbId[] }[] = [
+  { label: 'L arm', limbs: ['leftUpperArm', 'leftForearm'] },
+  { label: 'R arm', limbs: ['rightUpperArm', 'rightForearm'] },
+  { label: 'L leg', limbs: ['leftThigh', 'leftShin'] },
+  { label: 'R leg', limbs: ['rightThigh', 'rightShin'] },
+];
 
-/** Draws template pose as a semi-transparent stickman. Green glow when aligned. (Non-mirrored for rear camera.) */
+/**
+ * Draws template pose as a semi-transparent stickman. Green glow when aligned.
+ * Always drawn as in the template image; with the selfie camera only the video is mirrored.
+ * With limbScores, each limb segment is tinted red/amber/green by how well it matches (the head by headScore).
+ * The head sits around the template's ears with a pointer out through the nose; templates without
+ * visible ears fall back to a circle above the shoulders.
+ */
 function drawGhostStickman(
   ctx: CanvasRenderingContext2D,
   landmarks: Landmark[],
   canvasWidth: number,
   canvasHeight: number,
-  aligned = false
+  aligned = false,
+  limbScores?: LimbScores,
+  headScore?: number
 ): void {
   const pt = (i: number) => {
     const l = landmarks[i];
-    if (!l) return null;
+    if (!l || (l.visibility ?? 1) <= 0) return null; // visibility 0 = ignored in the skeleton editor
     return { x: l.x * canvasWidth, y: l.y * canvasHeight };
   };
 
@@ -124,22 +204,50 @@ function drawGhostStickman(
     ctx.shadowBlur = 15;
   }
 
+  const baseStroke = ctx.strokeStyle;
+  const limbLine = (limb: LimbId, a: { x: number; y: number } | null, b: { x: number; y: number } | null) => {
+    if (!a || !b) return;
+    const limbScore = aligned ? undefined : limbScores?.[limb];
+    ctx.strokeStyle = limbScore != null ? LIMB_RATING_COLORS[getLimbRating(limbScore)] : baseStroke;
+    ctx.beginPath(); ctx.moveTo(a.x, a.y); ctx.lineTo(b.x, b.y); ctx.stroke();
+    ctx.strokeStyle = baseStroke;
+  };
+
   if (p11 && p12) { ctx.beginPath(); ctx.moveTo(p11.x, p11.y); ctx.lineTo(p12.x, p12.y); ctx.stroke(); }
-  if (p11 && p13) { ctx.beginPath(); ctx.moveTo(p11.x, p11.y); ctx.lineTo(p13.x, p13.y); ctx.stroke(); }
-  if (p13 && p15) { ctx.beginPath(); ctx.moveTo(p13.x, p13.y); ctx.lineTo(p15.x, p15.y); ctx.stroke(); }
-  if (p12 && p14) { ctx.beginPath(); ctx.moveTo(p12.x, p12.y); ctx.lineTo(p14.x, p14.y); ctx.stroke(); }
-  if (p14 && p16) { ctx.beginPath(); ctx.moveTo(p14.x, p14.y); ctx.lineTo(p16.x, p16.y); ctx.stroke(); }
+  limbLine('leftUpperArm', p11, p13);
+  limbLine('leftForearm', p13, p15);
+  limbLine('rightUpperArm', p12, p14);
+  limbLine('rightForearm', p14, p16);
   if (p11 && p12 && p23 && p24) {
     const midShoulder = { x: (p11.x + p12.x) / 2, y: (p11.y + p12.y) / 2 };
     const midHip = { x: (p23.x + p24.x) / 2, y: (p23.y + p24.y) / 2 };
     ctx.beginPath(); ctx.moveTo(midShoulder.x, midShoulder.y); ctx.lineTo(midHip.x, midHip.y); ctx.stroke();
   }
   if (p23 && p24) { ctx.beginPath(); ctx.moveTo(p23.x, p23.y); ctx.lineTo(p24.x, p24.y); ctx.stroke(); }
-  if (p23 && p25) { ctx.beginPath(); ctx.moveTo(p23.x, p23.y); ctx.lineTo(p25.x, p25.y); ctx.stroke(); }
-  if (p25 && p27) { ctx.beginPath(); ctx.moveTo(p25.x, p25.y); ctx.lineTo(p27.x, p27.y); ctx.stroke(); }
-  if (p24 && p26) { ctx.beginPath(); ctx.moveTo(p24.x, p24.y); ctx.lineTo(p26.x, p26.y); ctx.stroke(); }
-  if (p26 && p28) { ctx.beginPath(); ctx.moveTo(p26.x, p26.y); ctx.lineTo(p28.x, p28.y); ctx.stroke(); }
-  if (p11 && p12) {
+  limbLine('leftThigh', p23, p25);
+  limbLine('leftShin', p25, p27);
+  limbLine('rightThigh', p24, p26);
+  limbLine('rightShin', p26, p28);
+  const nose = pt(NOSE), leftEar = pt(LEFT_EAR), rightEar = pt(RIGHT_EAR);
+  if (!aligned && headScore != null) ctx.strokeStyle = LIMB_RATING_COLORS[getLimbRating(headScore)];
+  if (nose && leftEar && rightEar) {
+    const center = { x: (leftEar.x + rightEar.x) / 2, y: (leftEar.y + rightEar.y) / 2 };
+    const noseDistance = Math.hypot(nose.x - center.x, nose.y - center.y);
+    const headRadius = Math.max(
+      0.6 * Math.hypot(leftEar.x - rightEar.x, leftEar.y - rightEar.y),
+      1.2 * noseDistance,
+      0.03 * Math.min(canvasWidth, canvasHeight)
+    );
+    ctx.beginPath(); ctx.arc(center.x, center.y, headRadius, 0, Math.PI * 2); ctx.stroke();
+    if (noseDistance > 0) {
+      // Face direction: from the nose out past the head outline.
+      const reach = (headRadius * 1.5) / noseDistance;
+      ctx.beginPath();
+      ctx.moveTo(nose.x, nose.y);
+      ctx.lineTo(center.x + (nose.x - center.x) * reach, center.y + (nose.y - center.y) * reach);
+      ctx.stroke();
+    }
+  } else if (p11 && p12) {
     const midX = (p11.x + p12.x) / 2;
     const midY = (p11.y + p12.y) / 2;
     const headOffsetY = 0.12 * canvasHeight;
@@ -172,8 +280,27 @@ function CircularMatchProgress({ score, threshold }: { score: number; threshold:
   );
 }
 
-/** Downscale image to max 640 on longest edge, send to pose. */
-async function sendImageToPose(pose: InstanceType<typeof import('@mediapipe/pose').Pose>, img: HTMLImageElement) {
+/** Small on/off pill for camera modes (bottom toggle row). */
+function ToggleChip({ active, onClick, title, children }: { active: boolean; onClick: () => void; title: string; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      title={title}
+      className={`px-3 py-1.5 rounded-full text-[11px] font-medium border backdrop-blur-md transition-colors shrink-0 ${
+        active
+          ? 'bg-white text-[#1a1a1b] border-white'
+          : 'bg-black/35 text-white/75 border-white/15 hover:bg-black/45'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Downscale image to max 640 on longest edge, find everyone in it (left to right). */
+async function estimateImagePeople(estimator: PoseEstimator, img: HTMLImageElement): Promise<Landmark[][]> {
   const maxSize = 640;
   const w = img.naturalWidth;
   const h = img.naturalHeight;
@@ -186,10 +313,119 @@ async function sendImageToPose(pose: InstanceType<typeof import('@mediapipe/pose
   const ctx = canvas.getContext('2d');
   if (!ctx) throw new Error('Canvas context missing');
   ctx.drawImage(img, 0, 0, w, h, 0, 0, cw, ch);
-  await pose.send({ image: canvas });
+  return detectPeople(estimator, canvas);
+}
+
+/** "Person on the left, move left": a per-person prompt with the slot's name in front. */
+function forPerson(label: string, prompt: string): string {
+  return `${label[0].toUpperCase()}${label.slice(1)}, ${prompt[0].toLowerCase()}${prompt.slice(1)}`;
+}
+
+/**
+ * Estimator for this page: MediaPipe in a Web Worker where supported, else on the main thread.
+ * `?estimator=main` forces the main thread; `?estimator=mock&fixture=<name>` replays
+ * /fixtures/<name>.json instead of running MediaPipe (offline, deterministic).
+ */
+function createPageEstimator(options: MediaPipeEstimatorOptions = {}): PoseEstimator {
+  const params = new URLSearchParams(window.location.search);
+  const kind = params.get('estimator');
+  if (kind === 'mock') {
+    const fixture = params.get('fixture') ?? 'standing-sway';
+    return createMockEstimator(loadLandmarkFixture(`/fixtures/${encodeURIComponent(fixture)}.json`));
+  }
+  if (kind !== 'main' && supportsWorkerEstimator()) return createWorkerEstimator(options);
+  return createMediaPipeEstimator(options);
+}
+
+/** Same kind as the live estimator, but fresh and unsmoothed, so a video file scores the same every run. */
+function createVideoEstimator(): PoseEstimator {
+  return createPageEstimator({ smoothLandmarks: false });
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error('Could not read clip'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Thirds grid, template subject box and horizon level, in canvas pixels. Box is the template letterbox. */
+function drawCompositionGuides(
+  ctx: CanvasRenderingContext2D,
+  box: { x: number; y: number; w: number; h: number },
+  { grid, subjectBox, rollDegrees }: { grid: boolean; subjectBox: Bounds | null; rollDegrees: number | null }
+) {
+  ctx.save();
+  if (grid) {
+    ctx.strokeStyle = 'rgba(255,255,255,0.35)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    for (const f of [1 / 3, 2 / 3]) {
+      ctx.moveTo(box.x + box.w * f, box.y);
+      ctx.lineTo(box.x + box.w * f, box.y + box.h);
+      ctx.moveTo(box.x, box.y + box.h * f);
+      ctx.lineTo(box.x + box.w, box.y + box.h * f);
+    }
+    ctx.stroke();
+  }
+  if (subjectBox) {
+    ctx.strokeStyle = 'rgba(255,255,255,0.6)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 6]);
+    ctx.strokeRect(
+      box.x + subjectBox.minX * box.w,
+      box.y + subjectBox.minY * box.h,
+      (subjectBox.maxX - subjectBox.minX) * box.w,
+      (subjectBox.maxY - subjectBox.minY) * box.h
+    );
+    ctx.setLineDash([]);
+  }
+  if (rollDegrees != null) {
+    // The line counter-rotates the phone's roll so it stays parallel to the real horizon.
+    const level = Math.abs(rollDegrees) <= TILT_WARN_DEGREES;
+    const cx = box.x + box.w / 2, cy = box.y + box.h / 2;
+    const half = box.w * 0.2;
+    ctx.translate(cx, cy);
+    ctx.strokeStyle = 'rgba(255,255,255,0.4)';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(-half - 16, 0); ctx.lineTo(-half, 0);
+    ctx.moveTo(half, 0); ctx.lineTo(half + 16, 0);
+    ctx.stroke();
+    ctx.rotate((-rollDegrees * Math.PI) / 180);
+    ctx.strokeStyle = level ? 'rgba(52,211,153,0.9)' : 'rgba(251,191,36,0.9)';
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(-half, 0); ctx.lineTo(half, 0);
+    ctx.stroke();
+  }
+  ctx.restore();
 }
 
 type Step = 'upload' | 'camera';
+type FacingMode = 'environment' | 'user';
+
+/** Template image as stored with gallery photos: app paths as-is, uploads (blob:/data: URLs) as a small JPEG data URL. */
+async function toStoredTemplateImage(url: string): Promise<string | null> {
+  if (url.startsWith('/')) return url;
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch {
+    return null;
+  }
+  const scale = Math.min(1, STORED_TEMPLATE_MAX_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.85);
+}
 
 function CameraPageContent() {
   const router = useRouter();
@@ -200,24 +436,84 @@ function CameraPageContent() {
 
   const [step, setStep] = useState<Step>('upload');
   const [templatePose, setTemplatePose] = useState<PoseLandmarks>(null);
+  /** Every person in a group template, left to right (templatePose is the first); null for one person. */
+  const [templateGroup, setTemplateGroup] = useState<Landmark[][] | null>(null);
   const [templateImageUrl, setTemplateImageUrl] = useState<string | null>(null);
   const [templateImageSize, setTemplateImageSize] = useState<{ width: number; height: number } | null>(null);
   const [templateImage, setTemplateImage] = useState<HTMLImageElement | null>(null);
   const [livePose, setLivePose] = useState<PoseLandmarks>(null);
+  /** Group mode: the filtered pose found in each frame strip, before slot assignment. */
+  const [liveGroup, setLiveGroup] = useState<PoseLandmarks[]>([]);
+  /** Group mode: score and breakdown per slot. */
+  const [slotMatches, setSlotMatches] = useState<PoseMatch[]>([]);
   const [matchScore, setMatchScore] = useState(0);
+  const [limbScores, setLimbScores] = useState<LimbScores>({});
+  /** Smoothed head-orientation score; null while either face is hidden. */
+  const [headScore, setHeadScore] = useState<number | null>(null);
   const [camError, setCamError] = useState<string | null>(null);
   const [isCamActive, setIsCamActive] = useState(false);
   const [extracting, setExtracting] = useState(false);
   const [guidancePrompt, setGuidancePrompt] = useState<string | null>(null);
-  const [displaySuccess, setDisplaySuccess] = useState(false);
   const [poseNameOverride, setPoseNameOverride] = useState<string | null>(null);
   const [capturedPhotoDataUrl, setCapturedPhotoDataUrl] = useState<string | null>(null);
+  const [comparisonInput, setComparisonInput] = useState<ComparisonInput | null>(null);
   const [saveToast, setSaveToast] = useState<string | null>(null);
+  const [autoCapture, setAutoCapture] = useState(false);
+  const [autoCooldownUntil, setAutoCooldownUntil] = useState<number | null>(null);
+  const [autoCooldownSeconds, setAutoCooldownSeconds] = useState(0);
+  const matchScoreRef = useRef(0);
+  const livePoseRef = useRef<PoseLandmarks>(null);
+  const [recordMode, setRecordMode] = useState(false);
+  const [savingClip, setSavingClip] = useState(false);
   const [showLoginModal, setShowLoginModal] = useState(false);
-
-  const successHoldCountRef = useRef(0);
-  const poseRef = useRef<InstanceType<typeof import('@mediapipe/pose').Pose> | null>(null);
-  const modeRef = useRef<'template' | 'live'>('template');
+  const [matchMode, setMatchMode] = useState<MatchMode>('aligned');
+  const [facingMode, setFacingMode] = useState<FacingMode>('environment');
+  const mirrored = facingMode === 'user';
+
+  /** Catalog entry behind the current template (difficulty + overrides); null for uploads. */
+  const [catalogTemplate, setCatalogTemplate] = useState<PoseTemplate | null>(null);
+  const [matchLevel, setMatchLevel] = useState<MatchLevel>('normal');
+  const matchProfile = useMemo(() => resolveMatchProfile(catalogTemplate, matchLevel), [catalogTemplate, matchLevel]);
+  const matchOptions = useMemo(
+    () => ({
+      mode: matchMode,
+      mirrored,
+      tolerance: matchProfile.tolerance,
+      landmarkTolerance: matchProfile.landmarkTolerance,
+      headWeight: matchProfile.headWeight,
+      regions: catalogTemplate?.regions,
+    }),
+    [matchMode, mirrored, matchProfile, catalogTemplate]
+  );
+  const { displaySuccess, updateSuccess } = useMatchSuccess(matchProfile);
+  const [captureOutput, setCaptureOutput] = useState<CaptureOutputMode>('framed');
+  /** Background effect for the captured photo; applied on review, saved and shared as shown. */
+  const [backgroundEffect, setBackgroundEffect] = useState<BackgroundEffect>('none');
+  const [backgroundColor, setBackgroundColor] = useState('#f5f5f4');
+  const [backgroundImage, setBackgroundImage] = useState<{ url: string; image: HTMLImageElement } | null>(null);
+  /** Preview toggle in the review overlay: show the effect (on) or the original (off). */
+  const [backgroundPreview, setBackgroundPreview] = useState(true);
+  const [processingBackground, setProcessingBackground] = useState(false);
+  /** Composited photo, tagged with the capture it was made from. */
+  const [processedPhoto, setProcessedPhoto] = useState<{ source: string; dataUrl: string } | null>(null);
+  /** Segmentation runs once per capture; effect changes reuse the mask. */
+  const segmentationRef = useRef<{ source: string; mask: Promise<SegmentationMask | null> } | null>(null);
+  const templateAspect = templateImageSize ? templateImageSize.width / templateImageSize.height : null;
+  const [showGrid, setShowGrid] = useState(false);
+  const [showSubjectBox, setShowSubjectBox] = useState(false);
+  const [showLevel, setShowLevel] = useState(false);
+  /** Latest screen roll (degrees) while the Level guide is on; null until the sensor reports. */
+  const rollRef = useRef<number | null>(null);
+  const subjectBox = useMemo(
+    () => (showSubjectBox && templatePose?.length ? getSubjectBox(templatePose) : null),
+    [showSubjectBox, templatePose]
+  );
+  const estimatorRef = useRef<PoseEstimator | null>(null);
+  const groupEstimatorRef = useRef<GroupPoseEstimator | null>(null);
+  const [estimatorError, setEstimatorError] = useState<string | null>(null);
+  /** Poses per second and mean frame → landmarks latency over the last stats window. */
+  const [inferenceStats, setInferenceStats] = useState<{ fps: number; latencyMs: number } | null>(null);
+  const inferenceWindowRef = useRef({ start: 0, frames: 0, latencyTotal: 0 });
   const cameraRef = useRef<InstanceType<typeof import('@mediapipe/camera_utils').Camera> | null>(null);
   const videoTrackRef = useRef<MediaStreamTrack | null>(null);
   const drawAnimationRef = useRef<number>(0);
@@ -227,110 +523,161 @@ function CameraPageContent() {
   }>({});
   const [zoomValue, setZoomValue] = useState(1);
   const [exposureValue, setExposureValue] = useState(0);
+  const exposureValueRef = useRef(0);
+  /** Lets the lighting check drive exposureCompensation; moving the slider hands control back. */
+  const [autoExposure, setAutoExposure] = useState(true);
+  /** Stable lighting warnings for the live frame (see EXPOSURE_SAMPLE_MS). */
+  const lightingWarningsRef = useRef<LightingWarning[]>([]);
+  /** Lighting prompt when auto exposure can't fix it (unsupported, off, or at its limit). */
+  const lightingPromptRef = useRef<string | null>(null);
+  /** Warnings at the moment of the last capturePhoto, saved with that photo. */
+  const capturedLightingRef = useRef<LightingWarning[]>([]);
+  /** Live landmarks (in the photo's own coordinates) and raw score at the last capturePhoto. */
+  const capturedLandmarksRef = useRef<PoseLandmarks>(null);
+  /** State, not a ref: the review overlay shows it. */
+  const [capturedScore, setCapturedScore] = useState(0);
+  /** Stored form of the current template image, computed once per template. */
+  const storedTemplateRef = useRef<{ source: string; stored: Promise<string | null> } | null>(null);
   const drawingUtilsRef = useRef<{
     drawConnectors: (ctx: CanvasRenderingContext2D, landmarks: Landmark[], connections: [number, number][], options?: object) => void;
     drawLandmarks: (ctx: CanvasRenderingContext2D, landmarks: Landmark[], options?: object) => void;
     POSE_CONNECTIONS: [number, number][];
   } | null>(null);
-  const previousScoreRef = useRef(0);
-  const poseInitializedRef = useRef(false);
+  const previousLimbScoresRef = useRef<LimbScores>({});
+  const previousHeadScoreRef = useRef<number | null>(null);
+  const shownPromptRef = useRef<{ text: string | null; at: number }>({ text: null, at: 0 });
+  const pendingPromptRef = useRef<{ text: string | null; frames: number }>({ text: null, frames: 0 });
+  const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const [drawingUtilsReady, setDrawingUtilsReady] = useState(false);
+  const [editingSkeleton, setEditingSkeleton] = useState(false);
   const supabase = useRef(createClient());
+  const {
+    recordingMimeType,
+    recordingStartedAt,
+    recordingElapsed,
+    recordedClip,
+    startRecording,
+    stopRecording,
+    discardClip,
+    logScore,
+    logLighting,
+  } = useClipRecording(canvasRef, step === 'camera', setSaveToast);
+
+
+  /** Debounced prompt: must repeat for PROMPT_STABLE_FRAMES and respect PROMPT_MIN_INTERVAL_MS. `immediate` bypasses both. */
+  const showPrompt = useCallback((text: string | null, immediate = false) => {
+    const shown = shownPromptRef.current;
+    if (text === shown.text) {
+      pendingPromptRef.current = { text: null, frames: 0 };
+      return;
+    }
+    const pending = pendingPromptRef.current;
+    pendingPromptRef.current = pending.text === text ? { text, frames: pending.frames + 1 } : { text, frames: 1 };
+    const now = Date.now();
+    if (!immediate && (pendingPromptRef.current.frames < PROMPT_STABLE_FRAMES || now - shown.at < PROMPT_MIN_INTERVAL_MS)) return;
+    shownPromptRef.current = { text, at: now };
+    pendingPromptRef.current = { text: null, frames: 0 };
+    setGuidancePrompt(text);
+  }, []);
 
-
-  /** EMA (alpha=0.2) over raw score for stable display. */
-  const getSmoothedScore = useCallback((rawScore: number) => {
+  /** EMA (alpha=0.2) per limb so ghost colors don't flicker; limbs that drop out are forgotten. */
+  const getSmoothedLimbScores = useCallback((raw: LimbScores) => {
     const alpha = 0.2;
-    const smoothed = alpha * rawScore + (1 - alpha) * previousScoreRef.current;
-    previousScoreRef.current = smoothed;
-    return Math.round(smoothed);
+    const smoothed: LimbScores = {};
+    for (const limb of Object.keys(raw) as LimbId[]) {
+      const prev = previousLimbScoresRef.current[limb];
+      smoothed[limb] = prev == null ? raw[limb] : alpha * raw[limb]! + (1 - alpha) * prev;
+    }
+    previousLimbScoresRef.current = smoothed;
+    return smoothed;
   }, []);
 
-  // Auto-load pose from Browse/Saved when landing on camera with selectedPose in sessionStorage
+  // Init pose estimator and drawing utils once. Declared before the auto-load effect so the estimator exists when it runs.
   useEffect(() => {
-    const selectedPoseData = typeof window !== 'undefined' ? sessionStorage.getItem('selectedPose') : null;
-    if (!selectedPoseData || step !== 'upload') return;
-    const poseData = JSON.parse(selectedPoseData);
-    sessionStorage.removeItem('selectedPose');
-    modeRef.current = 'template';
+    let cancelled = false;
+    const estimator = createPageEstimator();
+    estimatorRef.current = estimator;
+    estimator.ready().catch((err) => {
+      if (!cancelled) setEstimatorError(err instanceof Error ? err.message : 'Pose model failed to load');
+    });
+    (async () => {
+      const { POSE_CONNECTIONS } = await import('@mediapipe/pose');
+      const { drawConnectors, drawLandmarks } = await import('@mediapipe/drawing_utils');
+      if (cancelled) return;
+      drawingUtilsRef.current = { drawConnectors, drawLandmarks, POSE_CONNECTIONS };
+      setDrawingUtilsReady(true);
+    })();
+    return () => {
+      cancelled = true;
+      estimator.close();
+      estimatorRef.current = null;
+    };
+  }, []);
+
+  /**
+   * Make a Browse/Saved/shot-list pose the template. Catalog poses ship precomputed landmarks
+   * (no MediaPipe pass, same skeleton every time); anything else is extracted. Resolves to whether a pose was found.
+   */
+  const loadPose = useCallback((poseData: { id?: string; name?: string; imageUrl: string }) => new Promise<boolean>((resolve) => {
     setExtracting(true);
     setTemplatePose(null);
+    setTemplateGroup(null);
     setTemplateImageSize(null);
     setPoseNameOverride(poseData.name ?? 'Pose');
-    setTemplateImageUrl(poseData.imageUrl ?? null);
+    setTemplateImageUrl(poseData.imageUrl);
+
+    const catalogPose = poseData.id ? getPoseById(poseData.id) : undefined;
+    setCatalogTemplate(catalogPose ?? null);
+    if (catalogPose?.landmarks && catalogPose.imageSize) {
+      setTemplateImageSize(catalogPose.imageSize);
+      setTemplatePose(catalogPose.landmarks);
+      setExtracting(false);
+      resolve(true);
+      return;
+    }
+
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = async () => {
+      let found = false;
       try {
-        const maxSize = 640;
-        const scale = Math.min(maxSize / img.width, maxSize / img.height, 1);
-        const cw = Math.floor(img.width * scale);
-        const ch = Math.floor(img.height * scale);
-        const canvas = document.createElement('canvas');
-        canvas.width = cw;
-        canvas.height = ch;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) throw new Error('No canvas ctx');
-        ctx.drawImage(img, 0, 0, cw, ch);
-        let attempts = 0;
-        while (!poseRef.current && attempts < 50) {
-          await new Promise((r) => setTimeout(r, 100));
-          attempts++;
-        }
-        if (!poseRef.current) throw new Error('MediaPipe not ready');
+        const estimator = estimatorRef.current;
+        if (!estimator) throw new Error('Pose estimator missing');
+        await estimator.ready();
         setTemplateImageSize({ width: img.naturalWidth, height: img.naturalHeight });
         setTemplateImage(img);
-        setTemplatePose(null);
-        await poseRef.current.send({ image: canvas });
+        const people = await estimateImagePeople(estimator, img);
+        setTemplatePose(people[0] ?? null);
+        setTemplateGroup(people.length > 1 ? people : null);
+        found = people.length > 0;
       } catch (err) {
         console.error('Auto-load template failed:', err);
-        setExtracting(false);
       }
+      setExtracting(false);
+      resolve(found);
+    };
+    img.onerror = () => {
+      setExtracting(false);
+      resolve(false);
     };
-    img.onerror = () => setExtracting(false);
     img.src = poseData.imageUrl;
-  }, [step]);
-
-  // Init MediaPipe Pose and drawing utils once. onResults overwritten when entering camera step.
-  useEffect(() => {
-    let cancelled = false;
-    (async () => {
-      const { Pose, POSE_CONNECTIONS } = await import('@mediapipe/pose');
-      const { drawConnectors, drawLandmarks } = await import('@mediapipe/drawing_utils');
-      if (cancelled) return;
-      drawingUtilsRef.current = { drawConnectors, drawLandmarks, POSE_CONNECTIONS };
-
-      const pose = new Pose({
-        locateFile: (file: string) =>
-          `https://cdn.jsdelivr.net/npm/@mediapipe/pose@0.5/${file}`,
-      });
-      pose.setOptions({
-        modelComplexity: 0,
-        smoothLandmarks: true,
-        minDetectionConfidence: 0.5,
-        minTrackingConfidence: 0.5,
-      });
+  }), []);
 
-      const handleResults = (results: import('@mediapipe/pose').Results) => {
-        if (cancelled) return;
-        const landmarks = results.poseLandmarks ?? null;
-        if (modeRef.current === 'template') {
-          setTemplatePose(landmarks ? [...landmarks] : null);
-          setExtracting(false);
-          if (landmarks) modeRef.current = 'live';
-        } else {
-          setLivePose(landmarks ? [...landmarks] : null);
-        }
-      };
+  const { shots, currentShot, goToShot, completeShot, skipShot, retakeShot, endShotList } = useShotList(loadPose, setSaveToast);
 
-      pose.onResults(handleResults);
-      poseRef.current = pose;
-      poseInitializedRef.current = true;
-    })();
-    return () => {
-      cancelled = true;
-      poseRef.current = null;
-    };
-  }, []);
+  // Auto-load from Browse/Saved: a shot list (from its first shot) or one selectedPose, both one-time sessionStorage handoffs.
+  useEffect(() => {
+    if (step !== 'upload' || typeof window === 'undefined') return;
+    const list = takeShotList();
+    if (list) {
+      goToShot(list, 0);
+      return;
+    }
+    const selectedPoseData = sessionStorage.getItem('selectedPose');
+    if (!selectedPoseData) return;
+    sessionStorage.removeItem('selectedPose');
+    loadPose(JSON.parse(selectedPoseData));
+  }, [step, loadPose, goToShot]);
 
   // Auto-load pose from Browse (poseId) when ready.
   // Removed legacy poseId deep-linking
@@ -340,7 +687,7 @@ function CameraPageContent() {
 
   // Draw preview when in upload step with template pose.
   useEffect(() => {
-    if (step !== 'upload' || !templateImageUrl || !templatePose?.length) return;
+    if (step !== 'upload' || editingSkeleton || !templateImageUrl || !templatePose?.length) return;
     const canvas = previewCanvasRef.current;
     const utils = drawingUtilsRef.current;
     if (!canvas || !utils) return;
@@ -359,15 +706,17 @@ function CameraPageContent() {
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
       ctx.drawImage(img, 0, 0, img.naturalWidth, img.naturalHeight, 0, 0, w, h);
-      utils.drawConnectors(ctx, templatePose, utils.POSE_CONNECTIONS, {
-        color: 'rgba(128,128,128,0.9)', lineWidth: 3,
-      });
-      utils.drawLandmarks(ctx, templatePose, {
-        color: 'rgba(128,128,128,0.9)', lineWidth: 1, fillColor: 'rgba(80,80,80,0.9)', radius: 5,
-      });
+      for (const person of templateGroup ?? [templatePose]) {
+        utils.drawConnectors(ctx, person, utils.POSE_CONNECTIONS, {
+          color: 'rgba(128,128,128,0.9)', lineWidth: 3,
+        });
+        utils.drawLandmarks(ctx, person, {
+          color: 'rgba(128,128,128,0.9)', lineWidth: 1, fillColor: 'rgba(80,80,80,0.9)', radius: 5,
+        });
+      }
     };
     img.src = templateImageUrl;
-  }, [step, templateImageUrl, templatePose, templateImageSize]);
+  }, [step, editingSkeleton, templateImageUrl, templatePose, templateGroup, templateImageSize, drawingUtilsReady]);
 
   // No auto-switch from deep links; browse/saved now use upload flow via sessionStorage.
 
@@ -405,7 +754,20 @@ function CameraPageContent() {
     const sH = boxH / scl;
     const sx = (vW - sW) / 2;
     const sy = (vH - sH) / 2;
-    ctx.drawImage(video, sx, sy, sW, sH, boxX, boxY, boxW, boxH);
+    if (mirrored) {
+      ctx.save();
+      ctx.translate(Cw, 0);
+      ctx.scale(-1, 1);
+      ctx.drawImage(video, sx, sy, sW, sH, Cw - boxX - boxW, boxY, boxW, boxH);
+      ctx.restore();
+    } else {
+      ctx.drawImage(video, sx, sy, sW, sH, boxX, boxY, boxW, boxH);
+    }
+    drawCompositionGuides(ctx, { x: boxX, y: boxY, w: boxW, h: boxH }, {
+      grid: showGrid,
+      subjectBox,
+      rollDegrees: showLevel ? rollRef.current : null,
+    });
 
     const utils = drawingUtilsRef.current;
     const { drawConnectors, drawLandmarks, POSE_CONNECTIONS } = utils ?? {};
@@ -419,13 +781,18 @@ function CameraPageContent() {
     ctx.scale(boxW, boxH);
     ctx.scale(1 / Cw, 1 / Ch);
 
-    if (templatePose?.length) {
-      drawGhostStickman(ctx, templatePose, Cw, Ch, matchScore >= SUCCESS_THRESHOLD);
+    if (templateGroup) {
+      templateGroup.forEach((slot, i) => {
+        const slotMatch = slotMatches[i];
+        drawGhostStickman(ctx, slot, Cw, Ch, matchScore >= matchProfile.threshold, slotMatch?.limbs, slotMatch?.head);
+      });
+    } else if (templatePose?.length) {
+      drawGhostStickman(ctx, templatePose, Cw, Ch, matchScore >= matchProfile.threshold, limbScores, headScore ?? undefined);
     }
     ctx.restore();
 
     drawAnimationRef.current = requestAnimationFrame(draw);
-  }, [templatePose, templateImageSize, matchScore]);
+  }, [templatePose, templateGroup, slotMatches, templateImageSize, matchScore, matchProfile, limbScores, headScore, mirrored, showGrid, subjectBox, showLevel]);
 
   useEffect(() => {
     const video = videoRef.current;
@@ -439,52 +806,178 @@ function CameraPageContent() {
     };
   }, [isCamActive, draw]);
 
-  /** Capture raw video frame and show comparison overlay. */
-  const capturePhoto = useCallback(() => {
+  /**
+   * Full-resolution still in the chosen output mode (mirrored like the preview for selfies), as a JPEG
+   * data URL, with the live landmarks at the shutter moment mapped into the still's coordinates.
+   */
+  const captureFrame = useCallback(async () => {
     const video = videoRef.current;
-    if (!video || video.readyState < 2) return;
-    const w = video.videoWidth || 640;
-    const h = video.videoHeight || 480;
-    const canvas = document.createElement('canvas');
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.drawImage(video, 0, 0, w, h);
-    const dataUrl = canvas.toDataURL('image/png');
-    setCapturedPhotoDataUrl(dataUrl);
+    if (!video || video.readyState < 2) return null;
+    const live = livePoseRef.current;
+    const still = await captureStill(video, videoTrackRef.current, { mode: captureOutput, templateAspect, mirrored });
+    if (!still) return null;
+    return {
+      dataUrl: still.canvas.toDataURL('image/jpeg', 0.92),
+      landmarks: live ? toStillSpace(live, still.rect, mirrored) : null,
+    };
+  }, [captureOutput, templateAspect, mirrored]);
+
+  /** Template data saved with a photo so the gallery can export it side by side later. */
+  const getComparison = useCallback(async (landmarks: PoseLandmarks): Promise<GalleryComparison | undefined> => {
+    if (!templateImageUrl) return undefined;
+    if (storedTemplateRef.current?.source !== templateImageUrl) {
+      storedTemplateRef.current = { source: templateImageUrl, stored: toStoredTemplateImage(templateImageUrl) };
+    }
+    return { templateImageUrl: await storedTemplateRef.current.stored, templateLandmarks: templatePose, landmarks };
+  }, [templateImageUrl, templatePose]);
+
+  /** Capture a still and show the comparison overlay. */
+  const capturePhoto = useCallback(async () => {
+    const lighting = lightingWarningsRef.current;
+    const score = matchScoreRef.current;
+    const frame = await captureFrame();
+    if (!frame) return;
+    capturedLightingRef.current = lighting;
+    capturedLandmarksRef.current = frame.landmarks;
+    setCapturedScore(score);
+    setCapturedPhotoDataUrl(frame.dataUrl);
+  }, [captureFrame]);
+
+  /** The captured photo with its background effect applied (the original when the effect is off). */
+  const reviewPhotoDataUrl =
+    backgroundEffect !== 'none' && processedPhoto?.source === capturedPhotoDataUrl ? processedPhoto.dataUrl : capturedPhotoDataUrl;
+
+  // Segment the capture (once) and composite the chosen background whenever the effect changes.
+  useEffect(() => {
+    if (!capturedPhotoDataUrl || backgroundEffect === 'none' || (backgroundEffect === 'image' && !backgroundImage)) return;
+    const estimator = estimatorRef.current;
+    if (!estimator) return;
+    const source = capturedPhotoDataUrl;
+    let cancelled = false;
+    setProcessingBackground(true);
+    (async () => {
+      try {
+        const photo = new Image();
+        photo.src = source;
+        await photo.decode();
+        if (segmentationRef.current?.source !== source) {
+          segmentationRef.current = { source, mask: estimator.segment(toSegmentationInput(photo)) };
+        }
+        const mask = await segmentationRef.current.mask;
+        if (cancelled) return;
+        if (!mask) {
+          setSaveToast('No person found to cut out');
+          setBackgroundEffect('none');
+          return;
+        }
+        const canvas = applyBackground(photo, mask, {
+          effect: backgroundEffect,
+          color: backgroundColor,
+          image: backgroundImage?.image ?? null,
+        });
+        setProcessedPhoto({ source, dataUrl: canvas.toDataURL('image/jpeg', 0.92) });
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) {
+          setSaveToast('Background effect failed');
+          setBackgroundEffect('none');
+        }
+      } finally {
+        if (!cancelled) setProcessingBackground(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+      setProcessingBackground(false);
+    };
+  }, [capturedPhotoDataUrl, backgroundEffect, backgroundColor, backgroundImage]);
+
+  const cycleBackgroundEffect = useCallback(() => {
+    setBackgroundEffect((e) => BACKGROUND_EFFECTS[(BACKGROUND_EFFECTS.indexOf(e) + 1) % BACKGROUND_EFFECTS.length]);
+    setBackgroundPreview(true);
   }, []);
 
-  const captureFrameDataUrl = useCallback(() => {
-    const video = videoRef.current;
-    if (!video || video.readyState < 2) return null;
-    const w = video.videoWidth || 640;
-    const h = video.videoHeight || 480;
-    const canvas = document.createElement('canvas');
-    canvas.width = w;
-    canvas.height = h;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return null;
-    ctx.drawImage(video, 0, 0, w, h);
-    return canvas.toDataURL('image/jpeg', 0.9);
+  const onBackgroundFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.src = url;
+    image.decode().then(
+      () => setBackgroundImage((prev) => {
+        if (prev) URL.revokeObjectURL(prev.url);
+        return { url, image };
+      }),
+      () => {
+        URL.revokeObjectURL(url);
+        setSaveToast('Could not open that image');
+      }
+    );
   }, []);
 
   const handleAcceptPhoto = useCallback(() => {
-    if (!capturedPhotoDataUrl) return;
-    fetch(capturedPhotoDataUrl)
+    if (!reviewPhotoDataUrl) return;
+    fetch(reviewPhotoDataUrl)
       .then((res) => res.blob())
-      .then((blob) => {
-        const file = new File([blob], `pose-capture-${Date.now()}.png`, { type: 'image/png' });
-        if (typeof navigator !== 'undefined' && navigator.share && navigator.canShare?.({ files: [file] })) {
-          navigator.share({ files: [file], title: 'Pose capture' }).catch(() => {
-            downloadBlob(blob);
-          });
-        } else {
-          downloadBlob(blob);
-        }
-      });
+      .then((blob) => shareOrDownload(blob, 'pose-capture', 'Pose capture'));
     setCapturedPhotoDataUrl(null);
-  }, [capturedPhotoDataUrl]);
+    completeShot(reviewPhotoDataUrl, capturedScore);
+  }, [reviewPhotoDataUrl, capturedScore, completeShot]);
+
+  const openComparisonExport = useCallback(() => {
+    if (!reviewPhotoDataUrl || !templateImageUrl) return;
+    setComparisonInput({
+      templateImageUrl,
+      templateLandmarks: templatePose,
+      photoUrl: reviewPhotoDataUrl,
+      landmarks: capturedLandmarksRef.current,
+      score: capturedScore,
+    });
+  }, [reviewPhotoDataUrl, templateImageUrl, templatePose, capturedScore]);
+
+  /** Raw score for a burst frame. Group shots use the live group score; frames only keep the first person's skeleton. */
+  const scoreBurstFrame = useCallback(
+    (landmarks: PoseLandmarks) =>
+      templateGroup ? matchScoreRef.current : computePoseMatch(templatePose, landmarks, templateImageSize, matchOptions).score,
+    [templatePose, templateGroup, templateImageSize, matchOptions]
+  );
+  const { burstMode, setBurstMode, burstRecording, burstFrames, setBurstFrames, captureBurst } = useBurst({
+    videoRef,
+    livePoseRef,
+    lightingWarningsRef,
+    scoreFrame: scoreBurstFrame,
+    capture: { mode: captureOutput, templateAspect, mirrored },
+    armed: isCamActive && !capturedPhotoDataUrl,
+  });
+
+  const takeShot = recordMode ? startRecording : burstMode ? captureBurst : capturePhoto;
+
+  /** Video file frames are scored like live ones, but never mirrored, whichever camera is selected. */
+  const scoreVideoFrame = useMemo(() => {
+    if (!templatePose) return null;
+    const options = { ...matchOptions, mirrored: false };
+    return (landmarks: PoseLandmarks) => computePoseMatch(templatePose, landmarks, templateImageSize, options).score;
+  }, [templatePose, templateImageSize, matchOptions]);
+  const clearLivePose = useCallback(() => setLivePose(null), []);
+  const { videoAnalysis, pickingVideoFrames, onVideoFileChange, closeVideoAnalysis, pickVideoFrames } = useVideoAnalysis({
+    createEstimator: createVideoEstimator,
+    scoreFrame: scoreVideoFrame,
+    onStart: clearLivePose,
+    onFrames: setBurstFrames,
+    notify: setSaveToast,
+  });
+  const usingVideoFile = videoAnalysis != null;
+
+  const {
+    timerSeconds,
+    cycleTimerSeconds,
+    timerWaitForMatch,
+    setTimerWaitForMatch,
+    timerPhase,
+    timerRemaining,
+    toggleSelfTimer,
+  } = useSelfTimer(takeShot, matchScoreRef, matchProfile.threshold);
 
   const handleRetakePhoto = useCallback(() => {
     setCapturedPhotoDataUrl(null);
@@ -502,55 +995,253 @@ function CameraPageContent() {
   const handleSaveToGallery = useCallback(async () => {
     const user = await ensureUser();
     if (!user) return;
-    const photoData = capturedPhotoDataUrl ?? captureFrameDataUrl();
-    if (!photoData) {
+    // The score at the shutter: the captured photo's, or the live one for a straight save.
+    const score = reviewPhotoDataUrl ? capturedScore : matchScoreRef.current;
+    const frame = reviewPhotoDataUrl
+      ? { dataUrl: reviewPhotoDataUrl, landmarks: capturedLandmarksRef.current }
+      : await captureFrame();
+    if (!frame) {
       setSaveToast('No frame to save');
       return;
     }
     try {
       await saveGalleryPhoto({
         poseName: poseNameOverride ?? 'Pose',
-        photoDataUrl: photoData,
-        score: matchScore,
+        photoDataUrl: frame.dataUrl,
+        score,
         captureType: 'manual',
+        matchLevel,
+        lightingWarnings: capturedPhotoDataUrl ? capturedLightingRef.current : lightingWarningsRef.current,
+        comparison: await getComparison(frame.landmarks),
       });
       setSaveToast('Saved to Gallery');
+      // In a shot list, saving is keeping: close the review and move on.
+      if (shots) {
+        setCapturedPhotoDataUrl(null);
+        completeShot(frame.dataUrl, score);
+      }
     } catch (err) {
       console.error(err);
       setSaveToast('Save failed');
     }
-  }, [ensureUser, capturedPhotoDataUrl, captureFrameDataUrl, poseNameOverride, matchScore]);
-
-  function downloadBlob(blob: Blob) {
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `pose-capture-${Date.now()}.png`;
-    a.click();
-    URL.revokeObjectURL(url);
-  }
+  }, [ensureUser, capturedPhotoDataUrl, reviewPhotoDataUrl, captureFrame, getComparison, poseNameOverride, capturedScore, matchLevel, shots, completeShot]);
 
-  // Scoring + guidance + displaySuccess (same as image-recognition)
-  useEffect(() => {
-    const rawScore = computeMatchScore(templatePose, livePose, templateImageSize);
-    const smoothedScore = getSmoothedScore(rawScore);
-    setMatchScore(smoothedScore);
-    if (smoothedScore >= SUCCESS_THRESHOLD) {
-      successHoldCountRef.current += 1;
-      if (successHoldCountRef.current >= SUCCESS_HOLD_FRAMES) {
-        setDisplaySuccess(true);
+  const handleSaveBurstFrames = useCallback(async (frames: BurstFrame[]) => {
+    const user = await ensureUser();
+    if (!user) return;
+    try {
+      for (const frame of frames) {
+        await saveGalleryPhoto({
+          poseName: poseNameOverride ?? 'Pose',
+          photoDataUrl: frame.dataUrl,
+          score: frame.score,
+          captureType: 'manual',
+          matchLevel,
+          lightingWarnings: frame.lightingWarnings,
+          comparison: await getComparison(frame.landmarks),
+        });
       }
-      setGuidancePrompt(null);
+      setSaveToast(`Saved ${frames.length} to Gallery`);
+      setBurstFrames(null);
+      const best = frames.reduce((a, b) => (b.score > a.score ? b : a));
+      completeShot(best.dataUrl, best.score);
+    } catch (err) {
+      console.error(err);
+      setSaveToast('Save failed');
+    }
+  }, [ensureUser, poseNameOverride, matchLevel, getComparison, completeShot, setBurstFrames]);
+
+  const handleSaveClip = useCallback(async () => {
+    if (!recordedClip) return;
+    const user = await ensureUser();
+    if (!user) return;
+    setSavingClip(true);
+    try {
+      await saveGalleryVideo({
+        poseName: poseNameOverride ?? 'Pose',
+        videoDataUrl: await blobToDataUrl(recordedClip.blob),
+        scoreTimeline: recordedClip.timeline,
+        matchLevel,
+        lightingWarnings: recordedClip.lightingWarnings,
+      });
+      setSaveToast('Clip saved to Gallery');
+      discardClip();
+    } catch (err) {
+      console.error(err);
+      setSaveToast('Save failed');
+    } finally {
+      setSavingClip(false);
+    }
+  }, [recordedClip, ensureUser, poseNameOverride, matchLevel, discardClip]);
+
+  // Scoring + guidance + displaySuccess. livePose is already One-Euro filtered, so the score isn't smoothed again.
+  useEffect(() => {
+    if (templateGroup) return;
+    const { score, limbs, head } = computePoseMatch(templatePose, livePose, templateImageSize, matchOptions);
+    setMatchScore(score);
+    matchScoreRef.current = score;
+    livePoseRef.current = livePose;
+    setLimbScores(getSmoothedLimbScores(limbs));
+    const previousHead = previousHeadScoreRef.current;
+    const smoothedHead = head == null ? null : previousHead == null ? head : 0.2 * head + 0.8 * previousHead;
+    previousHeadScoreRef.current = smoothedHead;
+    setHeadScore(smoothedHead);
+    logScore(score);
+    if (updateSuccess(score)) {
+      showPrompt(null, true);
     } else {
-      successHoldCountRef.current = 0;
-      setDisplaySuccess(false);
-      if (smoothedScore < GUIDANCE_MAX_MATCH && livePose) {
-        setGuidancePrompt(getGuidancePrompt(livePose));
-      } else {
-        setGuidancePrompt(null);
+      // Framing first; once framed, coach the worst limb.
+      const rollDegrees = showLevel ? rollRef.current : null;
+      const framing = (matchMode === 'aligned' || score < GUIDANCE_MAX_MATCH) && livePose
+        ? getGuidancePrompt(mirrored ? mirrorLandmarks(livePose) : livePose, { subjectBox, templateImageSize, rollDegrees })
+        : getTiltPrompt(rollDegrees);
+      showPrompt(framing ?? lightingPromptRef.current ?? getCorrectionPrompt(templatePose, livePose, templateImageSize, mirrored, catalogTemplate?.regions));
+    }
+  }, [templatePose, templateGroup, livePose, templateImageSize, matchMode, mirrored, matchOptions, catalogTemplate, subjectBox, showLevel, getSmoothedLimbScores, updateSuccess, showPrompt, logScore]);
+
+  // Group scoring: people are assigned to slots by where they stand, each slot is scored on its own,
+  // and the group matches only when everyone does (the group score is the lowest slot's).
+  useEffect(() => {
+    if (!templateGroup) return;
+    const assigned = assignPeopleToSlots(templateGroup, dedupePeople(liveGroup), templateImageSize, mirrored);
+    const matches = templateGroup.map((slot, i) => computePoseMatch(slot, assigned[i], templateImageSize, matchOptions));
+    const score = Math.min(...matches.map((m) => m.score));
+    setSlotMatches(matches);
+    setMatchScore(score);
+    matchScoreRef.current = score;
+    // Captures and exports keep the first person's skeleton, matching templatePose.
+    livePoseRef.current = assigned[0];
+    logScore(score);
+    if (updateSuccess(score)) {
+      showPrompt(null, true);
+      return;
+    }
+    // Coach whoever is furthest off: framing against their own slot, then their worst limb.
+    const worst = matches.reduce((w, m, i) => (m.score < matches[w].score ? i : w), 0);
+    const label = getSlotLabel(worst, templateGroup.length);
+    const person = assigned[worst];
+    const tilt = getTiltPrompt(showLevel ? rollRef.current : null);
+    if (tilt || !person) {
+      showPrompt(tilt ?? forPerson(label, 'Step into the frame'));
+      return;
+    }
+    const slotBox = getSubjectBox(templateGroup[worst]);
+    const liveBounds = getLiveBounds(mirrored ? mirrorLandmarks(person) : person, templateImageSize);
+    const framing = slotBox && liveBounds ? getFramingPrompt(slotBox, liveBounds) : null;
+    const correction = getCorrectionPrompt(templateGroup[worst], person, templateImageSize, mirrored, catalogTemplate?.regions);
+    showPrompt(framing ? forPerson(label, framing) : lightingPromptRef.current ?? (correction && forPerson(label, correction)));
+  }, [templateGroup, liveGroup, templateImageSize, mirrored, matchOptions, catalogTemplate, showLevel, updateSuccess, showPrompt, logScore]);
+
+  // Group templates: one estimator per frame strip (lib/multi-pose.ts), rebuilt when the slots or mirroring change.
+  useEffect(() => {
+    if (step !== 'camera' || !templateGroup) return;
+    const group = createGroupEstimator(getFrameStrips(templateGroup, templateImageSize, mirrored), createPageEstimator);
+    groupEstimatorRef.current = group;
+    return () => {
+      group.close();
+      groupEstimatorRef.current = null;
+    };
+  }, [step, templateGroup, templateImageSize, mirrored]);
+
+  // Level guide: follow the phone's roll from DeviceOrientation.
+  useEffect(() => {
+    if (!showLevel) return;
+    const onOrientation = (e: DeviceOrientationEvent) => {
+      rollRef.current = getScreenRoll(e.beta, e.gamma, screen.orientation?.angle ?? 0);
+    };
+    window.addEventListener('deviceorientation', onOrientation);
+    return () => {
+      window.removeEventListener('deviceorientation', onOrientation);
+      rollRef.current = null;
+    };
+  }, [showLevel]);
+
+  /** iOS only grants orientation events after a permission prompt, which must come from a tap. */
+  const toggleLevel = useCallback(async () => {
+    if (showLevel) {
+      setShowLevel(false);
+      return;
+    }
+    const orientation = DeviceOrientationEvent as unknown as { requestPermission?: () => Promise<PermissionState> };
+    if (typeof orientation.requestPermission === 'function') {
+      const granted = await orientation.requestPermission().then((p) => p === 'granted', () => false);
+      if (!granted) {
+        setSaveToast('Motion access is needed for the level');
+        return;
       }
     }
-  }, [templatePose, livePose, templateImageSize, getSmoothedScore]);
+    setShowLevel(true);
+  }, [showLevel]);
+
+  const toggleAutoCapture = useCallback(async () => {
+    if (autoCapture) {
+      setAutoCapture(false);
+      return;
+    }
+    const user = await ensureUser();
+    if (!user) return;
+    setAutoCapture(true);
+  }, [autoCapture, ensureUser]);
+
+  // Auto-capture: once displaySuccess has held for AUTO_CAPTURE_HOLD_MS, save the frame as captureType 'auto'.
+  useEffect(() => {
+    if (!autoCapture || !displaySuccess || autoCooldownUntil || capturedPhotoDataUrl) return;
+    const t = setTimeout(async () => {
+      const lighting = lightingWarningsRef.current;
+      const score = matchScoreRef.current;
+      const frame = await captureFrame();
+      if (!frame) return;
+      setAutoCooldownUntil(Date.now() + AUTO_CAPTURE_COOLDOWN_MS);
+      try {
+        await saveGalleryPhoto({
+          poseName: poseNameOverride ?? 'Pose',
+          photoDataUrl: frame.dataUrl,
+          score,
+          captureType: 'auto',
+          matchLevel,
+          lightingWarnings: lighting,
+          comparison: await getComparison(frame.landmarks),
+        });
+        setSaveToast('Auto-saved to Gallery');
+        completeShot(frame.dataUrl, score);
+      } catch (err) {
+        console.error(err);
+        setSaveToast('Auto-save failed');
+      }
+    }, AUTO_CAPTURE_HOLD_MS);
+    return () => clearTimeout(t);
+  }, [autoCapture, displaySuccess, autoCooldownUntil, capturedPhotoDataUrl, captureFrame, getComparison, poseNameOverride, matchLevel, completeShot]);
+
+  // Auto-capture cooldown countdown.
+  useEffect(() => {
+    if (!autoCooldownUntil) return;
+    const tick = () => {
+      const remaining = autoCooldownUntil - Date.now();
+      if (remaining <= 0) {
+        setAutoCooldownUntil(null);
+        setAutoCooldownSeconds(0);
+      } else {
+        setAutoCooldownSeconds(Math.ceil(remaining / 1000));
+      }
+    };
+    tick();
+    const i = setInterval(tick, 250);
+    return () => clearInterval(i);
+  }, [autoCooldownUntil]);
+
+  // Voice mode: speak each new prompt (and the success cue) so a subject on a tripod shot can hear it.
+  useEffect(() => {
+    if (!voiceEnabled || typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+    const text = displaySuccess ? 'Hold it' : guidancePrompt;
+    if (!text) return;
+    window.speechSynthesis.cancel();
+    window.speechSynthesis.speak(new SpeechSynthesisUtterance(text));
+  }, [voiceEnabled, guidancePrompt, displaySuccess]);
+
+  useEffect(() => {
+    if (voiceEnabled || typeof window === 'undefined' || !('speechSynthesis' in window)) return;
+    window.speechSynthesis.cancel();
+  }, [voiceEnabled]);
 
   useEffect(() => {
     if (!saveToast) return;
@@ -558,27 +1249,64 @@ function CameraPageContent() {
     return () => clearTimeout(t);
   }, [saveToast]);
 
+  /** Count a finished estimate; publishes FPS and mean latency once per stats window. */
+  const recordInference = useCallback((sentAt: number) => {
+    const now = performance.now();
+    const win = inferenceWindowRef.current;
+    if (!win.start) win.start = now;
+    win.frames++;
+    win.latencyTotal += now - sentAt;
+    const elapsed = now - win.start;
+    if (elapsed < INFERENCE_STATS_WINDOW_MS) return;
+    setInferenceStats({
+      fps: Math.round((win.frames * 1000) / elapsed),
+      latencyMs: Math.round(win.latencyTotal / win.frames),
+    });
+    inferenceWindowRef.current = { start: now, frames: 0, latencyTotal: 0 };
+  }, []);
+
   // Start webcam when entering camera step — exact same flow as image-recognition
   useEffect(() => {
-    if (step !== 'camera') return;
+    if (step !== 'camera' || usingVideoFile) return;
     const video = videoRef.current;
     if (!video) return;
 
     let cancelled = false;
+    // One filter per camera session; timestamps are when each frame was sent, so busy frames don't skew speed.
+    const landmarkFilter = createLandmarkFilter(DEFAULT_ONE_EURO_PARAMS);
+    const stripFilters = Array.from({ length: MAX_GROUP_SIZE }, () => createLandmarkFilter(DEFAULT_ONE_EURO_PARAMS));
     (async () => {
       const { Camera } = await import('@mediapipe/camera_utils');
-      if (cancelled || !poseRef.current) return;
-      const pose = poseRef.current;
+      if (cancelled || !estimatorRef.current) return;
 
       const startCamera = async (w: number, h: number) => {
         const cam = new Camera(video, {
+          // Doesn't wait for the pose: the preview keeps its rate and frames arriving
+          // while the estimator is busy are dropped instead of queueing up latency.
           onFrame: async () => {
-            if (cancelled || !poseRef.current) return;
-            await poseRef.current.send({ image: video });
+            const group = groupEstimatorRef.current;
+            if (group) {
+              if (cancelled || group.busy) return;
+              const sentAt = performance.now();
+              group.estimate(video).then((people) => {
+                if (cancelled) return;
+                setLiveGroup(people.map((pose, i) => stripFilters[i].filter(pose, sentAt)));
+                recordInference(sentAt);
+              }, (err) => console.error('Group pose estimate failed:', err));
+              return;
+            }
+            const estimator = estimatorRef.current;
+            if (cancelled || !estimator || estimator.busy) return;
+            const sentAt = performance.now();
+            estimator.estimate(video).then((landmarks) => {
+              if (cancelled) return;
+              setLivePose(landmarkFilter.filter(landmarks, sentAt));
+              recordInference(sentAt);
+            }, (err) => console.error('Pose estimate failed:', err));
           },
           width: w,
           height: h,
-          facingMode: 'environment', // rear camera on mobile
+          facingMode, // rear camera on mobile unless flipped to selfie
         });
         await cam.start();
         return cam;
@@ -607,6 +1335,8 @@ function CameraPageContent() {
 
     return () => {
       cancelled = true;
+      inferenceWindowRef.current = { start: 0, frames: 0, latencyTotal: 0 };
+      setInferenceStats(null);
       try {
         if (cameraRef.current) cameraRef.current.stop();
       } catch (_) {}
@@ -615,7 +1345,7 @@ function CameraPageContent() {
       setIsCamActive(false);
       setCameraControls({});
     };
-  }, [step]);
+  }, [step, facingMode, recordInference, usingVideoFile]);
 
   // Read zoom/exposure capabilities from the video track when camera is active (not supported on iOS Safari).
   useEffect(() => {
@@ -638,6 +1368,7 @@ function CameraPageContent() {
       if (typeof cap.exposureCompensation === 'object' && cap.exposureCompensation?.min != null && cap.exposureCompensation?.max != null) {
         controls.exposureCompensation = { min: cap.exposureCompensation.min, max: cap.exposureCompensation.max, step: cap.exposureCompensation.step ?? 0.1 };
         setExposureValue(settings.exposureCompensation ?? 0);
+        exposureValueRef.current = settings.exposureCompensation ?? 0;
       }
       setCameraControls(controls);
       return true;
@@ -655,21 +1386,67 @@ function CameraPageContent() {
     track.applyConstraints({ advanced: [{ zoom: v }] } as unknown as MediaTrackConstraints).catch(() => {});
   }, []);
 
-  const onExposureChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const v = parseFloat(e.target.value);
+  const applyExposure = useCallback((v: number) => {
     setExposureValue(v);
+    exposureValueRef.current = v;
     const track = videoTrackRef.current;
     if (!track) return;
     track.applyConstraints({ advanced: [{ exposureCompensation: v }] } as unknown as MediaTrackConstraints).catch(() => {});
   }, []);
 
+  const onExposureChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setAutoExposure(false);
+    applyExposure(parseFloat(e.target.value));
+  }, [applyExposure]);
+
+  // Lighting check: sample the live frame's histogram; correct exposure when we can, else prompt.
+  useEffect(() => {
+    if (!isCamActive) return;
+    let streak: { key: string; count: number } = { key: '', count: 0 };
+    const id = setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      const live = livePoseRef.current;
+      const subject = live?.length ? getPoseBounds(live) : null;
+      const analysis = analyzeExposure(video, video.videoWidth || 640, video.videoHeight || 480, subject);
+      if (!analysis) return;
+      const key = analysis.warnings.join(',');
+      streak = key === streak.key ? { key, count: streak.count + 1 } : { key, count: 1 };
+      if (streak.count < LIGHTING_STABLE_SAMPLES) return;
+
+      const warnings = analysis.warnings;
+      lightingWarningsRef.current = warnings;
+      logLighting(warnings);
+
+      const range = cameraControls.exposureCompensation;
+      const direction = warnings.includes('backlit') || warnings.includes('underexposed') ? 1 : warnings.includes('overexposed') ? -1 : 0;
+      if (autoExposure && range && direction) {
+        const step = Math.max(range.step, AUTO_EXPOSURE_MIN_STEP);
+        const next = Math.min(range.max, Math.max(range.min, exposureValueRef.current + direction * step));
+        if (next !== exposureValueRef.current) {
+          applyExposure(next);
+          lightingPromptRef.current = null;
+          return;
+        }
+      }
+      lightingPromptRef.current = getLightingPrompt(warnings);
+    }, EXPOSURE_SAMPLE_MS);
+    return () => {
+      clearInterval(id);
+      lightingWarningsRef.current = [];
+      lightingPromptRef.current = null;
+    };
+  }, [isCamActive, autoExposure, cameraControls.exposureCompensation, applyExposure, logLighting]);
+
   const onFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file || !poseRef.current) return;
-    modeRef.current = 'template';
+    if (!file || !estimatorRef.current) return;
     setExtracting(true);
+    setEditingSkeleton(false);
     setTemplatePose(null);
+    setTemplateGroup(null);
     setTemplateImageSize(null);
+    setCatalogTemplate(null);
     const prevUrl = templateImageUrl;
     if (prevUrl) URL.revokeObjectURL(prevUrl);
     const url = URL.createObjectURL(file);
@@ -677,25 +1454,35 @@ function CameraPageContent() {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.onload = async () => {
-      if (!poseRef.current) return;
+      const estimator = estimatorRef.current;
+      if (!estimator) return;
       try {
-        await sendImageToPose(poseRef.current, img);
-      } catch {
-        setExtracting(false);
+        const people = await estimateImagePeople(estimator, img);
+        setTemplatePose(people[0] ?? null);
+        setTemplateGroup(people.length > 1 ? people : null);
+      } catch (err) {
+        console.error('Template extraction failed:', err);
       }
+      setExtracting(false);
     };
     img.src = url;
     e.target.value = '';
   }, [templateImageUrl]);
 
+  /** Manual skeleton replaces the extracted one (the first person in a group); ghost and scoring use it from here on. */
+  const handleSaveSkeleton = useCallback((landmarks: Landmark[], imageSize: { width: number; height: number }) => {
+    setTemplatePose(landmarks);
+    setTemplateGroup((group) => group && [landmarks, ...group.slice(1)]);
+    setTemplateImageSize(imageSize);
+    setEditingSkeleton(false);
+  }, []);
+
   const handleProceed = useCallback(() => {
     if (!templatePose) return;
-    modeRef.current = 'live';
     setStep('camera');
   }, [templatePose]);
 
   const handleBack = useCallback(() => {
-    modeRef.current = 'template';
     if (step === 'camera') {
       setStep('upload');
     } else {
@@ -739,6 +1526,12 @@ function CameraPageContent() {
               </span>
             </label>
 
+            {estimatorError && (
+              <p className="mt-4 text-sm text-amber-400 text-center">
+                Pose model failed to load ({estimatorError}). Check your connection and reload.
+              </p>
+            )}
+
             {extracting && (
               <div className="mt-6 flex flex-col items-center gap-2">
                 <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
@@ -746,9 +1539,22 @@ function CameraPageContent() {
               </div>
             )}
 
-            {templateImageUrl && templatePose && !extracting && (
+            {templateImageUrl && editingSkeleton && !extracting && (
+              <div className="mt-6 w-full flex justify-center">
+                <SkeletonEditor
+                  imageUrl={templateImageUrl}
+                  initialLandmarks={templatePose}
+                  onSave={handleSaveSkeleton}
+                  onCancel={() => setEditingSkeleton(false)}
+                />
+              </div>
+            )}
+
+            {templateImageUrl && templatePose && !extracting && !editingSkeleton && (
               <div className="mt-6 w-full max-w-lg flex flex-col items-center">
-                <p className="text-sm text-white/70 mb-2">Extracted pose (key joints):</p>
+                <p className="text-sm text-white/70 mb-2">
+                  {templateGroup ? `Extracted poses — ${templateGroup.length} people:` : 'Extracted pose (key joints):'}
+                </p>
                 <div className="relative w-full rounded-xl overflow-hidden bg-black/50" style={{ aspectRatio: '1' }}>
                   <canvas
                     ref={previewCanvasRef}
@@ -756,6 +1562,13 @@ function CameraPageContent() {
                     style={{ maxHeight: '70vh' }}
                   />
                 </div>
+                <button
+                  type="button"
+                  onClick={() => setEditingSkeleton(true)}
+                  className="mt-3 text-sm text-white/60 hover:text-white underline underline-offset-2"
+                >
+                  Skeleton looks wrong? Edit joints
+                </button>
                 <button
                   type="button"
                   onClick={handleProceed}
@@ -766,8 +1579,17 @@ function CameraPageContent() {
               </div>
             )}
 
-            {templateImageUrl && !templatePose && !extracting && (
-              <p className="mt-4 text-sm text-amber-400">No pose detected. Try another image.</p>
+            {templateImageUrl && !templatePose && !extracting && !editingSkeleton && (
+              <div className="mt-4 flex flex-col items-center gap-2">
+                <p className="text-sm text-amber-400">No pose detected. Try another image or place the joints yourself.</p>
+                <button
+                  type="button"
+                  onClick={() => setEditingSkeleton(true)}
+                  className="px-4 py-2 rounded-xl bg-white/10 border border-white/20 text-sm font-medium hover:bg-white/15 transition-colors"
+                >
+                  Place joints manually
+                </button>
+              </div>
             )}
           </main>
         </>
@@ -784,7 +1606,7 @@ function CameraPageContent() {
                 playsInline
                 muted
                 className="absolute inset-0 w-full h-full object-cover"
-                style={{ transform: 'translateZ(0)' }}
+                style={{ transform: mirrored ? 'translateZ(0) scaleX(-1)' : 'translateZ(0)' }}
               />
               <canvas
                 ref={canvasRef}
@@ -807,7 +1629,7 @@ function CameraPageContent() {
                 <span className="opacity-80">←</span> Back
               </button>
               <div className="flex items-center gap-2.5 py-1.5 px-3 rounded-full bg-black/35 backdrop-blur-md border border-white/[0.08]">
-                <CircularMatchProgress score={matchScore} threshold={SUCCESS_THRESHOLD} />
+                <CircularMatchProgress score={matchScore} threshold={matchProfile.threshold} />
                 <span className="text-[13px] text-white/70">Match</span>
                 <span className="text-[15px] font-semibold tabular-nums text-white/95 min-w-[2.25rem]">
                   {matchScore}%
@@ -831,11 +1653,139 @@ function CameraPageContent() {
               </div>
             </div>
 
+            {/* Inference FPS / latency — below Back */}
+            {inferenceStats && (
+              <div
+                className="absolute left-3 pointer-events-none"
+                style={{ top: 'calc(max(0.5rem, env(safe-area-inset-top)) + 5rem)' }}
+              >
+                <span className="px-2 py-0.5 rounded-full bg-black/35 backdrop-blur-md text-[10px] font-medium tabular-nums text-white/60">
+                  {inferenceStats.fps} fps · {inferenceStats.latencyMs} ms
+                </span>
+              </div>
+            )}
+
+            {/* Per-limb breakdown — below the match pill */}
+            {livePose && (Object.keys(limbScores).length > 0 || headScore != null) && (
+              <div
+                className="absolute left-0 right-0 flex justify-center gap-1.5 pointer-events-none"
+                style={{ top: 'calc(max(0.5rem, env(safe-area-inset-top)) + 3rem)' }}
+              >
+                {headScore != null && (
+                  <span
+                    className="px-2 py-0.5 rounded-full bg-black/35 backdrop-blur-md text-[10px] font-medium text-white/85 border"
+                    style={{ borderColor: LIMB_RATING_COLORS[getLimbRating(headScore)] }}
+                  >
+                    Head
+                  </span>
+                )}
+                {LIMB_GROUPS.map(({ label, limbs }) => {
+                  const scores = limbs.map((l) => limbScores[l]).filter((v): v is number => v != null);
+                  if (!scores.length) return null;
+                  return (
+                    <span
+                      key={label}
+                      className="px-2 py-0.5 rounded-full bg-black/35 backdrop-blur-md text-[10px] font-medium text-white/85 border"
+                      style={{ borderColor: LIMB_RATING_COLORS[getLimbRating(Math.min(...scores))] }}
+                    >
+                      {label}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
+
+            {templateGroup && slotMatches.length > 0 && (
+              <div
+                className="absolute left-0 right-0 flex justify-center gap-1.5 pointer-events-none"
+                style={{ top: 'calc(max(0.5rem, env(safe-area-inset-top)) + 3rem)' }}
+              >
+                {slotMatches.map((slotMatch, i) => (
+                  <span
+                    key={i}
+                    title={getSlotLabel(i, slotMatches.length)}
+                    className="px-2 py-0.5 rounded-full bg-black/35 backdrop-blur-md text-[10px] font-medium text-white/85 border"
+                    style={{ borderColor: LIMB_RATING_COLORS[getLimbRating(slotMatch.score)] }}
+                  >
+                    Person {i + 1} · {slotMatch.score}%
+                  </span>
+                ))}
+              </div>
+            )}
+
+            {/* Shot list progress — below the limb chips */}
+            {shots && currentShot != null && (
+              <div
+                className="absolute left-0 right-0 flex justify-center pointer-events-none"
+                style={{ top: 'calc(max(0.5rem, env(safe-area-inset-top)) + 5rem)' }}
+              >
+                <div className="pointer-events-auto flex items-center gap-2 py-1 pl-3 pr-1 rounded-full bg-black/35 backdrop-blur-md border border-white/[0.08]">
+                  <span className="text-[11px] font-medium tabular-nums text-white/60">
+                    Shot {currentShot + 1}/{shots.length}
+                  </span>
+                  <span className="text-[11px] text-white/85 max-w-[8rem] truncate">
+                    {extracting ? 'Loading…' : shots[currentShot].pose.name}
+                  </span>
+                  <div className="flex gap-0.5" aria-hidden>
+                    {shots.map((shot, i) => (
+                      <span
+                        key={i}
+                        className={`w-1.5 h-1.5 rounded-full ${
+                          i === currentShot ? 'bg-white' : shot.status === 'taken' ? 'bg-emerald-400/80' : shot.status === 'skipped' ? 'bg-white/15' : 'bg-white/35'
+                        }`}
+                      />
+                    ))}
+                  </div>
+                  {currentShot > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => retakeShot(currentShot - 1)}
+                      className="px-2 py-0.5 rounded-full text-[11px] text-white/70 hover:text-white"
+                    >
+                      Retake last
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={skipShot}
+                    className="px-2.5 py-0.5 rounded-full bg-white/10 text-[11px] text-white/85 hover:bg-white/15"
+                  >
+                    Skip
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Self-timer countdown */}
+            {timerPhase && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+                {timerPhase.kind === 'counting' ? (
+                  <span className="text-[96px] font-bold tabular-nums text-white/90 drop-shadow-lg">{timerRemaining}</span>
+                ) : (
+                  <span className="px-4 py-2 rounded-full bg-black/45 backdrop-blur-sm text-white/90 text-[15px] font-medium">
+                    Waiting for match…
+                  </span>
+                )}
+              </div>
+            )}
+
+            {/* Auto-capture cooldown */}
+            {autoCapture && autoCooldownUntil && (
+              <div
+                className="absolute left-0 right-0 flex justify-center pointer-events-none"
+                style={{ bottom: 'max(10rem, calc(env(safe-area-inset-bottom) + 9.5rem))' }}
+              >
+                <span className="px-3 py-1 rounded-full bg-emerald-500/25 backdrop-blur-sm text-emerald-200 text-[11px] font-medium border border-emerald-400/20">
+                  Captured · next auto shot in {autoCooldownSeconds}s
+                </span>
+              </div>
+            )}
+
             {/* Guidance pill — above bottom bar */}
             {guidancePrompt && (
               <div
                 className="absolute left-0 right-0 flex justify-center pointer-events-none"
-                style={{ bottom: 'max(4.5rem, calc(env(safe-area-inset-bottom) + 4rem))' }}
+                style={{ bottom: 'max(6.75rem, calc(env(safe-area-inset-bottom) + 6.25rem))' }}
               >
                 <span className="px-4 py-2 rounded-full bg-black/45 backdrop-blur-sm text-white/90 text-[13px] font-medium border border-white/[0.06]">
                   {guidancePrompt}
@@ -843,6 +1793,111 @@ function CameraPageContent() {
               </div>
             )}
 
+            {/* Mode toggles — row above the bottom bar */}
+            <div
+              className="absolute left-0 right-0 flex items-center justify-center gap-2 px-3 overflow-x-auto no-scrollbar"
+              style={{ bottom: 'max(3.75rem, calc(env(safe-area-inset-bottom) + 3.25rem))' }}
+            >
+              <ToggleChip
+                active={mirrored}
+                onClick={() => setFacingMode((f) => (f === 'user' ? 'environment' : 'user'))}
+                title={mirrored ? 'Switch to rear camera' : 'Switch to front camera'}
+              >
+                Flip
+              </ToggleChip>
+              <ToggleChip active={autoCapture} onClick={toggleAutoCapture} title="Take and save a photo automatically when the pose is held">
+                Auto
+              </ToggleChip>
+              <ToggleChip
+                active={burstMode}
+                onClick={() => {
+                  setBurstMode((b) => !b);
+                  setRecordMode(false);
+                }}
+                title={`Take picture records ${BURST_FRAME_COUNT} frames and ranks them`}
+              >
+                Burst
+              </ToggleChip>
+              {recordingMimeType && (
+                <ToggleChip
+                  active={recordMode}
+                  onClick={() => {
+                    setRecordMode((r) => !r);
+                    setBurstMode(false);
+                  }}
+                  title={`Record a clip (up to ${RECORD_MAX_MS / 1000}s) of the session with the ghost overlay and a score timeline`}
+                >
+                  Record
+                </ToggleChip>
+              )}
+              <ToggleChip
+                active={matchMode === 'strict'}
+                onClick={() => setMatchMode((m) => (m === 'strict' ? 'aligned' : 'strict'))}
+                title="Placement scores exact position and size in the frame"
+              >
+                Placement
+              </ToggleChip>
+              <ToggleChip
+                active={captureOutput !== 'framed'}
+                onClick={() => setCaptureOutput((m) => CAPTURE_OUTPUT_MODES[(CAPTURE_OUTPUT_MODES.indexOf(m) + 1) % CAPTURE_OUTPUT_MODES.length])}
+                title="Photo output: as framed / full sensor / 4:5 / 9:16 / 1:1"
+              >
+                {CAPTURE_OUTPUT_LABELS[captureOutput]}
+              </ToggleChip>
+              <ToggleChip active={showGrid} onClick={() => setShowGrid((g) => !g)} title="Rule-of-thirds grid">
+                Grid
+              </ToggleChip>
+              <ToggleChip
+                active={showSubjectBox}
+                onClick={() => setShowSubjectBox((b) => !b)}
+                title="Show where the subject sits in the reference and guide you into that framing"
+              >
+                Frame
+              </ToggleChip>
+              {typeof window !== 'undefined' && 'DeviceOrientationEvent' in window && (
+                <ToggleChip active={showLevel} onClick={toggleLevel} title="Horizon level from the phone's motion sensor">
+                  Level
+                </ToggleChip>
+              )}
+              <ToggleChip
+                active={matchLevel !== 'normal'}
+                onClick={() => setMatchLevel((l) => MATCH_LEVELS[(MATCH_LEVELS.indexOf(l) + 1) % MATCH_LEVELS.length])}
+                title={`Matching level: tap to cycle relaxed / normal / strict (match at ${matchProfile.threshold}%)`}
+              >
+                {MATCH_LEVEL_LABELS[matchLevel]}
+              </ToggleChip>
+              {!templateGroup && (
+                <label
+                  title={`Score a video file frame by frame instead of the live camera (first ${VIDEO_MAX_DURATION_S}s)`}
+                  className="px-3 py-1.5 rounded-full text-[11px] font-medium border backdrop-blur-md transition-colors shrink-0 bg-black/35 text-white/75 border-white/15 hover:bg-black/45 cursor-pointer"
+                >
+                  <input type="file" accept="video/*" onChange={onVideoFileChange} className="sr-only" />
+                  Video file
+                </label>
+              )}
+              {typeof window !== 'undefined' && 'speechSynthesis' in window && (
+                <ToggleChip active={voiceEnabled} onClick={() => setVoiceEnabled((v) => !v)} title="Speak guidance out loud">
+                  Voice
+                </ToggleChip>
+              )}
+              <ToggleChip
+                active={timerSeconds > 0}
+                onClick={cycleTimerSeconds}
+                title="Self-timer: tap to cycle off / 3s / 5s / 10s"
+              >
+                {timerSeconds > 0 ? `Timer ${timerSeconds}s` : 'Timer'}
+              </ToggleChip>
+              {timerSeconds > 0 && (
+                <ToggleChip
+                  active={timerWaitForMatch}
+                  onClick={() => setTimerWaitForMatch((w) => !w)}
+                  title="After the countdown, wait for a match before shooting (shoots anyway after 10s)"
+                >
+                  Wait for match
+                </ToggleChip>
+              )}
+            </div>
+
             {/* Bottom bar: Zoom + Exposure + Take picture (same as image-recognition) */}
             <div
               className="absolute bottom-0 left-0 right-0 flex items-center justify-center gap-3 px-3 py-2.5 bg-black/40 backdrop-blur-md border-t border-white/[0.06]"
@@ -876,17 +1931,44 @@ function CameraPageContent() {
                         onChange={onExposureChange}
                         className="w-20 h-1 rounded-full accent-white/90 bg-white/20"
                       />
+                      <button
+                        type="button"
+                        onClick={() => setAutoExposure((v) => !v)}
+                        aria-pressed={autoExposure}
+                        title="Adjust exposure automatically for backlight and dark or blown-out frames"
+                        className={`text-[10px] uppercase tracking-wider ${autoExposure ? 'text-emerald-400' : 'text-white/40'}`}
+                      >
+                        Auto
+                      </button>
                     </div>
                   )}
                 </div>
               )}
-              <button
-                type="button"
-                onClick={capturePhoto}
-                className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg active:scale-[0.98] transition-transform shrink-0 hover:bg-white/95"
-              >
-                Take picture
-              </button>
+              {recordingStartedAt != null ? (
+                <button
+                  type="button"
+                  onClick={stopRecording}
+                  className="flex items-center gap-2 px-5 py-2.5 rounded-full bg-red-500 text-white font-semibold text-[13px] shadow-lg active:scale-[0.98] transition-transform shrink-0 hover:bg-red-400"
+                >
+                  <span className="w-2.5 h-2.5 rounded-sm bg-white" aria-hidden />
+                  Stop · <span className="tabular-nums">{recordingElapsed}s</span>
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={timerSeconds > 0 ? toggleSelfTimer : takeShot}
+                  disabled={burstRecording}
+                  className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg active:scale-[0.98] transition-transform shrink-0 hover:bg-white/95 disabled:opacity-60"
+                >
+                  {burstRecording
+                    ? 'Recording…'
+                    : timerPhase
+                      ? 'Cancel timer'
+                      : timerSeconds > 0
+                        ? `Start ${timerSeconds}s timer`
+                        : recordMode ? 'Start recording' : burstMode ? 'Take burst' : 'Take picture'}
+                </button>
+              )}
             </div>
 
             {/* Camera error */}
@@ -896,6 +1978,40 @@ function CameraPageContent() {
               </div>
             )}
 
+            {/* Video file: score timeline, then its top frames go to the burst review */}
+            {videoAnalysis && (
+              <VideoAnalysis
+                src={videoAnalysis.url}
+                progress={videoAnalysis.progress}
+                timeline={videoAnalysis.timeline}
+                threshold={matchProfile.threshold}
+                picking={pickingVideoFrames}
+                onPickFrames={pickVideoFrames}
+                onClose={closeVideoAnalysis}
+              />
+            )}
+
+            {/* Burst review: frames ranked best-first */}
+            {burstFrames && (
+              <BurstReview
+                frames={burstFrames}
+                onSave={handleSaveBurstFrames}
+                onDiscard={() => setBurstFrames(null)}
+              />
+            )}
+
+            {/* Clip review: playback with score-timeline scrubber */}
+            {recordedClip && (
+              <ClipReview
+                src={recordedClip.url}
+                timeline={recordedClip.timeline}
+                threshold={matchProfile.threshold}
+                saving={savingClip}
+                onSave={handleSaveClip}
+                onDiscard={discardClip}
+              />
+            )}
+
             {/* Post-capture comparison: side-by-side (desktop) or stacked (mobile), scroll to compare */}
             {capturedPhotoDataUrl && (
               <div
@@ -925,16 +2041,56 @@ function CameraPageContent() {
                   {/* Your capture */}
                   <div className="flex-1 min-w-0 flex flex-col items-center gap-2">
                     <span className="text-[11px] font-medium text-white/60 uppercase tracking-wider">Your shot</span>
-                    <img
-                      src={capturedPhotoDataUrl}
-                      alt="Your capture"
-                      className="w-full max-w-sm aspect-[3/4] object-contain rounded-xl border border-white/10 bg-black/30"
-                    />
-                    <p className="text-[12px] text-white/70">{matchScore}% match</p>
+                    <div className="relative w-full max-w-sm">
+                      <img
+                        src={(backgroundPreview ? reviewPhotoDataUrl : null) ?? capturedPhotoDataUrl}
+                        alt="Your capture"
+                        className="w-full aspect-[3/4] object-contain rounded-xl border border-white/10 bg-black/30"
+                      />
+                      {processingBackground && (
+                        <span className="absolute top-2 left-1/2 -translate-x-1/2 px-2.5 py-1 rounded-full bg-black/60 text-white/80 text-[11px]">
+                          Cutting out…
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-[12px] text-white/70">{capturedScore}% match</p>
+                    <div className="flex flex-wrap items-center justify-center gap-2">
+                      <ToggleChip
+                        active={backgroundEffect !== 'none'}
+                        onClick={cycleBackgroundEffect}
+                        title="Background: original, portrait blur, solid color or your own image"
+                      >
+                        Background: {BACKGROUND_EFFECT_LABELS[backgroundEffect]}
+                      </ToggleChip>
+                      {backgroundEffect === 'color' && (
+                        <input
+                          type="color"
+                          value={backgroundColor}
+                          onChange={(e) => setBackgroundColor(e.target.value)}
+                          aria-label="Background color"
+                          className="w-7 h-7 rounded-full bg-transparent border border-white/20 cursor-pointer"
+                        />
+                      )}
+                      {backgroundEffect === 'image' && (
+                        <label className="px-3 py-1.5 rounded-full text-[11px] font-medium border border-white/15 bg-black/35 text-white/75 hover:bg-black/45 cursor-pointer">
+                          <input type="file" accept="image/*" onChange={onBackgroundFileChange} className="sr-only" />
+                          {backgroundImage ? 'Change image' : 'Choose image'}
+                        </label>
+                      )}
+                      {backgroundEffect !== 'none' && (
+                        <ToggleChip
+                          active={backgroundPreview}
+                          onClick={() => setBackgroundPreview((v) => !v)}
+                          title="Toggle between the effect and the original photo"
+                        >
+                          Preview
+                        </ToggleChip>
+                      )}
+                    </div>
                   </div>
                 </div>
                 <div
-                  className="flex-none flex items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/40"
+                  className="flex-none flex flex-wrap items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/40"
                   style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
                 >
                   <button
@@ -947,20 +2103,47 @@ function CameraPageContent() {
                   <button
                     type="button"
                     onClick={handleSaveToGallery}
-                    className="px-5 py-2.5 rounded-full bg-emerald-500 text-white font-semibold text-[13px] shadow-lg hover:bg-emerald-400 transition-colors"
+                    disabled={processingBackground}
+                    className="px-5 py-2.5 rounded-full bg-emerald-500 text-white font-semibold text-[13px] shadow-lg hover:bg-emerald-400 transition-colors disabled:opacity-50"
                   >
                     Save to Gallery
                   </button>
+                  {templateImageUrl && (
+                    <button
+                      type="button"
+                      onClick={openComparisonExport}
+                      disabled={processingBackground}
+                      className="px-5 py-2.5 rounded-full bg-white/10 border border-white/20 text-white font-semibold text-[13px] hover:bg-white/15 transition-colors disabled:opacity-50"
+                    >
+                      Export comparison
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={handleAcceptPhoto}
-                    className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg hover:bg-white/95 transition-colors"
+                    disabled={processingBackground}
+                    className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg hover:bg-white/95 transition-colors disabled:opacity-50"
                   >
                     Accept & share
                   </button>
                 </div>
               </div>
             )}
+
+            {comparisonInput && (
+              <ComparisonExport input={comparisonInput} onClose={() => setComparisonInput(null)} />
+            )}
+
+            {shots && currentShot == null && (
+              <ShotListSummary
+                shots={shots}
+                onRetake={retakeShot}
+                onDone={() => {
+                  endShotList();
+                  router.push('/');
+                }}
+              />
+            )}
           </main>
         </>
       )}
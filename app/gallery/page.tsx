@@ -5,11 +5,17 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { fetchGalleryPhotos, deleteGalleryPhoto, supabaseConfigured, type GalleryPhoto } from '@/lib/storage';
 import { createClient } from '@/lib/supabase';
+import ClipPlayer from '@/components/ClipPlayer';
+import ComparisonExport from '@/components/ComparisonExport';
+import type { ComparisonInput } from '@/lib/comparison-export';
+import { MATCH_LEVEL_LABELS } from '@/lib/match-profiles';
+import { LIGHTING_WARNING_LABELS } from '@/lib/image-analysis';
 
 export default function GalleryPage() {
   const [photos, setPhotos] = useState<GalleryPhoto[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [comparisonInput, setComparisonInput] = useState<ComparisonInput | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -39,12 +45,23 @@ export default function GalleryPage() {
     });
   };
 
+  const openComparison = (photo: GalleryPhoto) => {
+    if (!photo.templateImageUrl) return;
+    setComparisonInput({
+      templateImageUrl: photo.templateImageUrl,
+      templateLandmarks: photo.templateLandmarks,
+      photoUrl: photo.photoDataUrl,
+      landmarks: photo.landmarks,
+      score: photo.score,
+    });
+  };
+
   return (
     <div className="min-h-screen bg-black text-white pb-24">
       <header className="sticky top-0 z-10 bg-black/90 backdrop-blur-sm border-b border-white/10 px-4 py-4">
         <h1 className="text-2xl font-bold tracking-tight">Gallery</h1>
         <p className="text-sm text-white/60 mt-0.5">
-          {photos.length === 0 ? 'No captures yet' : `${photos.length} photo${photos.length !== 1 ? 's' : ''}`}
+          {photos.length === 0 ? 'No captures yet' : `${photos.length} capture${photos.length !== 1 ? 's' : ''}`}
           {supabaseConfigured ? ' · Supabase' : ' · Supabase env missing'}
         </p>
       </header>
@@ -73,27 +90,49 @@ export default function GalleryPage() {
           {photos.map((photo) => (
             <div
               key={photo.id}
-              className="rounded-2xl overflow-hidden bg-white/5 border border-white/10"
+              className={`rounded-2xl overflow-hidden bg-white/5 border border-white/10 ${photo.mediaType === 'video' ? 'col-span-2' : ''}`}
             >
-              <img
-                src={photo.photoDataUrl}
-                alt={photo.poseName}
-                className="w-full aspect-[3/4] object-cover"
-              />
+              {photo.mediaType === 'video' ? (
+                <ClipPlayer src={photo.photoDataUrl} timeline={photo.scoreTimeline ?? []} className="p-2" />
+              ) : (
+                <img
+                  src={photo.photoDataUrl}
+                  alt={photo.poseName}
+                  className="w-full aspect-[3/4] object-cover"
+                />
+              )}
               <div className="p-3">
                 <h3 className="font-semibold text-sm">{photo.poseName}</h3>
                 <div className="flex items-center justify-between mt-1 text-xs text-white/50">
-                  <span className="text-green-400">{photo.score}% match</span>
+                  <span className="text-green-400">{photo.mediaType === 'video' ? `Peak ${photo.score}%` : `${photo.score}% match`}</span>
                   <span>{new Date(photo.createdAt).toLocaleDateString()}</span>
                 </div>
+                {photo.lightingWarnings.length > 0 && (
+                  <p className="mt-1 text-[11px] text-amber-300/80">
+                    {photo.lightingWarnings.map((w) => LIGHTING_WARNING_LABELS[w]).join(' · ')}
+                  </p>
+                )}
                 <div className="flex items-center justify-between mt-2 text-xs text-white/60">
-                  <span className="text-white/40">{photo.captureType}</span>
-                  <button
-                    onClick={() => handleDelete(photo.id)}
-                    className="text-white/40 hover:text-red-400 transition-colors"
-                  >
-                    Delete
-                  </button>
+                  <span className="text-white/40">
+                    {photo.mediaType === 'video' ? 'clip' : photo.captureType}
+                    {photo.matchLevel && ` · ${MATCH_LEVEL_LABELS[photo.matchLevel].toLowerCase()}`}
+                  </span>
+                  <div className="flex items-center gap-3">
+                    {photo.mediaType === 'photo' && photo.templateImageUrl && (
+                      <button
+                        onClick={() => openComparison(photo)}
+                        className="text-white/60 hover:text-white transition-colors"
+                      >
+                        Compare
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(photo.id)}
+                      className="text-white/40 hover:text-red-400 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -104,6 +143,10 @@ export default function GalleryPage() {
       <div className="px-4 pb-6 text-center text-xs text-white/40">
         Need to shoot more? <Link href="/camera" className="text-white hover:underline">Open camera</Link>
       </div>
+
+      {comparisonInput && (
+        <ComparisonExport input={comparisonInput} onClose={() => setComparisonInput(null)} />
+      )}
     </div>
   );
 }
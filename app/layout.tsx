@@ -2,6 +2,7 @@ import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import Navigation from "@/components/Navigation";
 import { ViewportHeight } from "@/components/ViewportHeight";
+import { ServiceWorkerRegistration } from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,6 +18,8 @@ const geistMono = Geist_Mono({
 export const metadata: Metadata = {
   title: "SHOOT",
   description: "Match poses, take better photos",
+  icons: { icon: "/favicon.ico", apple: "/icon.svg" },
+  appleWebApp: { capable: true, title: "SHOOT", statusBarStyle: "black-translucent" },
 };
 
 export const viewport: Viewport = {
@@ -44,6 +47,7 @@ export default function RootLayout({
           }}
         />
         <ViewportHeight />
+        <ServiceWorkerRegistration />
         {children}
         <Navigation />
       </body>
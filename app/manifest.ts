@@ -0,0 +1,19 @@
+import type { MetadataRoute } from 'next';
+
+/** Web app manifest (served at /manifest.webmanifest); public/sw.js precaches it. */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'SHOOT',
+    short_name: 'SHOOT',
+    description: 'Match poses, take better photos',
+    start_url: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#000000',
+    theme_color: '#000000',
+    icons: [
+      { src: '/icon.svg', sizes: 'any', type: 'image/svg+xml', purpose: 'any' },
+      { src: '/favicon.ico', sizes: '48x48', type: 'image/x-icon' },
+    ],
+  };
+}
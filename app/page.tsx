@@ -3,18 +3,32 @@
 import { useEffect, useMemo, useState, useTransition } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { Search, Bookmark, Target, MoreVertical } from 'lucide-react';
+import { Search, Bookmark, Target, MoreVertical, ListPlus, ListChecks } from 'lucide-react';
 import { savePhotoRemote, fetchPhotos, deletePhotoRemote } from '@/lib/storage';
 import { POSE_TEMPLATES, type PoseTemplate } from '@/lib/poses';
 import { createClient } from '@/lib/supabase';
+import {
+  getShotListKey,
+  loadShotListDraft,
+  saveShotListDraft,
+  startShotList,
+  toggleShotListPose,
+  type ShotListPose,
+} from '@/lib/shot-list';
 import LoginRequiredModal from '@/components/LoginRequiredModal';
+import ShotListBar from '@/components/ShotListBar';
 
 type DetailState = { open: boolean; pose: PoseTemplate | null };
 type PendingAction =
   | { type: 'save'; pose: PoseTemplate }
   | { type: 'shoot'; pose: PoseTemplate }
+  | { type: 'shotList' }
   | null;
 
+function toShotListPose(pose: PoseTemplate): ShotListPose {
+  return { id: pose.id, name: pose.name, imageUrl: pose.imageUrl };
+}
+
 export default function BrowsePage() {
   const [activeCategory, setActiveCategory] = useState<string>('All');
   const [detail, setDetail] = useState<DetailState>({ open: false, pose: null });
@@ -25,6 +39,8 @@ export default function BrowsePage() {
   const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
   const [savedMap, setSavedMap] = useState<Record<string, string>>({}); // poseId -> saved_photos.id
   const [showLoginModal, setShowLoginModal] = useState(false);
+  const [shotList, setShotList] = useState<ShotListPose[]>([]);
+  const shotListKeys = useMemo(() => new Set(shotList.map(getShotListKey)), [shotList]);
 
   const router = useRouter();
   const supabase = createClient();
@@ -45,6 +61,11 @@ export default function BrowsePage() {
 
   const recommended = POSE_TEMPLATES.slice(0, 6);
 
+  // Shot list draft lives in sessionStorage so Browse and Saved share it.
+  useEffect(() => {
+    setShotList(loadShotListDraft());
+  }, []);
+
   // After returning from login, replay the intended action (saved in sessionStorage)
   useEffect(() => {
     supabase.auth.getUser().then(({ data }) => {
@@ -75,6 +96,8 @@ export default function BrowsePage() {
             handleSave(parsed.pose, false);
           } else if (parsed?.type === 'shoot') {
             handleShoot(parsed.pose, false);
+          } else if (parsed?.type === 'shotList') {
+            handleStartShotList(false);
           }
         } catch (_) {
           /* ignore */
@@ -155,6 +178,31 @@ export default function BrowsePage() {
     }
   };
 
+  const toggleShotList = (pose: PoseTemplate) => {
+    const next = toggleShotListPose(shotList, toShotListPose(pose));
+    if (next === shotList) {
+      setSaveMessage('Shot list is full');
+      setTimeout(() => setSaveMessage(null), 2500);
+      return;
+    }
+    saveShotListDraft(next);
+    setShotList(next);
+  };
+
+  const clearShotList = () => {
+    saveShotListDraft([]);
+    setShotList([]);
+  };
+
+  const handleStartShotList = async (checkAuth = true) => {
+    if (checkAuth) {
+      const user = await ensureAuthed({ type: 'shotList' });
+      if (!user) return;
+    }
+    const draft = loadShotListDraft();
+    if (draft.length) startShotList(draft);
+  };
+
   return (
     <div className="min-h-screen bg-black text-white pb-24">
       {/* Search */}
@@ -263,6 +311,16 @@ export default function BrowsePage() {
                   </button>
                 </div>
                 <div className="flex items-center justify-end gap-2 text-white">
+                  <button
+                    className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white/15 text-white text-xs font-semibold"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      toggleShotList(pose);
+                    }}
+                  >
+                    {shotListKeys.has(getShotListKey(toShotListPose(pose))) ? <ListChecks size={18} /> : <ListPlus size={18} />}
+                    List
+                  </button>
                   <button
                     className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-white text-black text-xs font-semibold"
                     onClick={(e) => {
@@ -318,6 +376,13 @@ export default function BrowsePage() {
                 Shoot
               </Link>
             </div>
+            <button
+              type="button"
+              onClick={() => toggleShotList(detail.pose!)}
+              className="mt-2 w-full text-center py-2.5 rounded-xl bg-white/5 border border-white/10 text-sm text-white/80"
+            >
+              {shotListKeys.has(getShotListKey(toShotListPose(detail.pose))) ? 'Remove from shot list' : 'Add to shot list'}
+            </button>
             {saveMessage && (
               <p className="mt-2 text-center text-sm text-green-400">{saveMessage}</p>
             )}
@@ -338,6 +403,8 @@ export default function BrowsePage() {
         </div>
       )}
 
+      <ShotListBar poses={shotList} onClear={clearShotList} onStart={() => handleStartShotList()} />
+
       <LoginRequiredModal
         open={showLoginModal}
         onClose={() => setShowLoginModal(false)}
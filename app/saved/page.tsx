@@ -4,12 +4,23 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { fetchPhotos, deletePhotoRemote, supabaseConfigured, type SavedPhoto } from '@/lib/storage';
 import { createClient } from '@/lib/supabase';
+import {
+  getShotListKey,
+  loadShotListDraft,
+  saveShotListDraft,
+  startShotList,
+  toggleShotListPose,
+  type ShotListPose,
+} from '@/lib/shot-list';
+import ShotListBar from '@/components/ShotListBar';
 import Link from 'next/link';
 
 export default function SavedPage() {
   const [photos, setPhotos] = useState<SavedPhoto[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [shotList, setShotList] = useState<ShotListPose[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -23,6 +34,8 @@ export default function SavedPage() {
       try {
         const data = await fetchPhotos();
         setPhotos(data);
+        // Shot list draft is shared with Browse through sessionStorage.
+        setShotList(loadShotListDraft());
         setError(null);
       } catch (err) {
         console.error(err);
@@ -39,6 +52,23 @@ export default function SavedPage() {
     });
   };
 
+  /** Saved poses are queued by id; the camera loads each image when its shot comes up. */
+  const toggleShotList = (photo: SavedPhoto) => {
+    const next = toggleShotListPose(shotList, { savedId: photo.id, name: photo.poseName });
+    if (next === shotList) {
+      setMessage('Shot list is full');
+      setTimeout(() => setMessage(null), 2500);
+      return;
+    }
+    saveShotListDraft(next);
+    setShotList(next);
+  };
+
+  const clearShotList = () => {
+    saveShotListDraft([]);
+    setShotList([]);
+  };
+
   return (
     <div className="min-h-screen bg-black text-white pb-24">
       <header className="sticky top-0 z-10 bg-black/90 backdrop-blur-sm border-b border-white/10 px-4 py-4">
@@ -92,6 +122,14 @@ export default function SavedPage() {
                   >
                     Delete
                   </button>
+                  <button
+                    onClick={() => toggleShotList(photo)}
+                    className="text-white/60 hover:text-white transition-colors"
+                  >
+                    {shotList.some((p) => getShotListKey(p) === getShotListKey({ savedId: photo.id, name: photo.poseName }))
+                      ? 'In list'
+                      : '+ List'}
+                  </button>
                   <button
                     onClick={() => {
                       if (typeof window !== 'undefined') {
@@ -115,6 +153,16 @@ export default function SavedPage() {
           ))}
         </div>
       )}
+
+      {message && (
+        <div className="fixed bottom-20 inset-x-0 z-50 flex justify-center pointer-events-none">
+          <span className="px-4 py-2 rounded-full bg-green-600 text-white text-sm shadow-lg">
+            {message}
+          </span>
+        </div>
+      )}
+
+      <ShotListBar poses={shotList} onClear={clearShotList} onStart={() => startShotList(shotList)} />
     </div>
   );
 }
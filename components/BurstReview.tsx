@@ -0,0 +1,100 @@
+'use client';
+
+import { useState } from 'react';
+import type { PoseLandmarks } from '@/lib/pose-matching';
+import type { LightingWarning } from '@/lib/image-analysis';
+
+export type BurstFrame = {
+  id: string;
+  dataUrl: string;
+  /** Live landmarks in this frame's own image coordinates; saved for comparison exports. */
+  landmarks: PoseLandmarks;
+  /** Raw (unsmoothed) match score for this frame, 0–100. */
+  score: number;
+  /** Laplacian variance; only comparable within one burst. */
+  sharpness: number;
+  /** Combined score + relative sharpness used for ordering. */
+  rank: number;
+  /** Lighting warnings at capture time; saved with the frame. */
+  lightingWarnings: LightingWarning[];
+};
+
+type Props = {
+  /** Frames sorted best-first. */
+  frames: BurstFrame[];
+  onSave: (frames: BurstFrame[]) => void;
+  onDiscard: () => void;
+};
+
+/** Burst review overlay: frames ranked by match and sharpness; pick one or several to save. */
+export function BurstReview({ frames, onSave, onDiscard }: Props) {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(frames[0] ? [frames[0].id] : []));
+  const maxSharpness = Math.max(1, ...frames.map((f) => f.sharpness));
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex flex-col bg-[#1a1a1b] overflow-auto"
+      style={{ paddingTop: 'max(0.5rem, env(safe-area-inset-top))' }}
+    >
+      <div className="flex-none px-3 py-2 text-center">
+        <p className="text-[13px] text-white/80">Pick your best frames</p>
+        <p className="text-[11px] text-white/50 mt-0.5">Ranked by match and sharpness · tap to select</p>
+      </div>
+      <div className="flex-1 px-4 py-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+        {frames.map((frame, i) => (
+          <button
+            key={frame.id}
+            type="button"
+            onClick={() => toggle(frame.id)}
+            aria-pressed={selected.has(frame.id)}
+            className={`relative rounded-xl overflow-hidden border-2 text-left transition-colors ${
+              selected.has(frame.id) ? 'border-emerald-400' : 'border-white/10'
+            }`}
+          >
+            <img src={frame.dataUrl} alt={`Burst frame ${i + 1}`} className="w-full aspect-[3/4] object-cover bg-black/30" />
+            {i === 0 && (
+              <span className="absolute top-2 left-2 px-2 py-0.5 rounded-full bg-emerald-500 text-white text-[10px] font-semibold">
+                Best
+              </span>
+            )}
+            <div className="absolute bottom-0 inset-x-0 px-2 py-1.5 bg-black/60 flex items-center justify-between text-[11px]">
+              <span className="text-white/90">{frame.score}% match</span>
+              <span className="text-white/60">{Math.round((100 * frame.sharpness) / maxSharpness)}% sharp</span>
+            </div>
+          </button>
+        ))}
+      </div>
+      <div
+        className="flex-none sticky bottom-0 flex items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/60 backdrop-blur-md"
+        style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
+      >
+        <button
+          type="button"
+          onClick={onDiscard}
+          className="px-5 py-2.5 rounded-full bg-white/10 border border-white/20 text-white font-semibold text-[13px] hover:bg-white/15 transition-colors"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={() => onSave(frames.filter((f) => selected.has(f.id)))}
+          disabled={selected.size === 0}
+          className="px-5 py-2.5 rounded-full bg-emerald-500 text-white font-semibold text-[13px] shadow-lg hover:bg-emerald-400 transition-colors disabled:opacity-50"
+        >
+          Save {selected.size} to Gallery
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default BurstReview;
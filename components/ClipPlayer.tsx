@@ -0,0 +1,102 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ScoreSample } from '@/lib/storage';
+
+type Props = {
+  src: string;
+  timeline: ScoreSample[];
+  /** Draws a reference line at the success score. */
+  threshold?: number;
+  className?: string;
+};
+
+/** Score of the last sample at or before `ms` (timeline is sorted by t). */
+function getScoreAt(timeline: ScoreSample[], ms: number): number | null {
+  let lo = 0, hi = timeline.length - 1, found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (timeline[mid].t <= ms) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found >= 0 ? timeline[found].score : timeline[0]?.score ?? null;
+}
+
+/** Recorded clip with a score-timeline scrubber: drag along the graph to seek, read the score at that moment. */
+export function ClipPlayer({ src, timeline, threshold, className = '' }: Props) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [positionMs, setPositionMs] = useState(0);
+  const scrubbingRef = useRef(false);
+  // MediaRecorder WebM often reports an Infinity duration; the timeline knows how long the clip is.
+  const durationMs = Math.max(1, timeline[timeline.length - 1]?.t ?? 0);
+
+  // timeupdate fires only a few times a second; follow playback per frame instead.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let raf = 0;
+    const tick = () => {
+      if (!scrubbingRef.current) setPositionMs(video.currentTime * 1000);
+      if (!video.paused) raf = requestAnimationFrame(tick);
+    };
+    const onPlay = () => { raf = requestAnimationFrame(tick); };
+    video.addEventListener('play', onPlay);
+    video.addEventListener('seeked', tick);
+    return () => {
+      cancelAnimationFrame(raf);
+      video.removeEventListener('play', onPlay);
+      video.removeEventListener('seeked', tick);
+    };
+  }, [src]);
+
+  const seekTo = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ms = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)) * durationMs;
+    setPositionMs(ms);
+    if (videoRef.current) videoRef.current.currentTime = ms / 1000;
+  }, [durationMs]);
+
+  const points = timeline.map((s) => `${(100 * s.t) / durationMs},${100 - s.score}`).join(' ');
+  const playhead = Math.min(100, (100 * positionMs) / durationMs);
+  const scoreAtPosition = getScoreAt(timeline, positionMs);
+
+  return (
+    <div className={`flex flex-col gap-2 ${className}`}>
+      <video ref={videoRef} src={src} controls playsInline className="w-full rounded-xl bg-black/40" />
+      {timeline.length > 0 && (
+        <div>
+          <svg
+            viewBox="0 0 100 100"
+            preserveAspectRatio="none"
+            className="w-full h-14 rounded-lg bg-white/5 touch-none cursor-pointer"
+            onPointerDown={(e) => {
+              scrubbingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              seekTo(e);
+            }}
+            onPointerMove={(e) => scrubbingRef.current && seekTo(e)}
+            onPointerUp={() => { scrubbingRef.current = false; }}
+            onPointerCancel={() => { scrubbingRef.current = false; }}
+          >
+            {threshold != null && (
+              <line x1="0" x2="100" y1={100 - threshold} y2={100 - threshold} stroke="rgba(52,211,153,0.5)" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+            )}
+            <polyline points={points} fill="none" stroke="white" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+            <line x1={playhead} x2={playhead} y1="0" y2="100" stroke="rgb(52,211,153)" strokeWidth="2" vectorEffect="non-scaling-stroke" />
+          </svg>
+          <div className="mt-1 flex items-center justify-between text-[11px] text-white/60 tabular-nums">
+            <span>{(positionMs / 1000).toFixed(1)}s</span>
+            <span className="text-white/90">{scoreAtPosition != null ? `${scoreAtPosition}% match` : '—'}</span>
+            <span>{(durationMs / 1000).toFixed(1)}s</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ClipPlayer;
@@ -0,0 +1,57 @@
+'use client';
+
+import ClipPlayer from '@/components/ClipPlayer';
+import type { ScoreSample } from '@/lib/storage';
+
+type Props = {
+  /** Object URL of the recorded clip. */
+  src: string;
+  timeline: ScoreSample[];
+  threshold?: number;
+  saving?: boolean;
+  onSave: () => void;
+  onDiscard: () => void;
+};
+
+/** Clip review overlay: play back the recorded session against its score timeline, then save or discard. */
+export function ClipReview({ src, timeline, threshold, saving = false, onSave, onDiscard }: Props) {
+  const peak = Math.max(0, ...timeline.map((s) => s.score));
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex flex-col bg-[#1a1a1b] overflow-auto"
+      style={{ paddingTop: 'max(0.5rem, env(safe-area-inset-top))' }}
+    >
+      <div className="flex-none px-3 py-2 text-center">
+        <p className="text-[13px] text-white/80">Review your clip</p>
+        <p className="text-[11px] text-white/50 mt-0.5">Peak {peak}% match · drag the graph to scrub</p>
+      </div>
+      <div className="flex-1 px-4 py-3 flex justify-center">
+        <ClipPlayer src={src} timeline={timeline} threshold={threshold} className="w-full max-w-lg" />
+      </div>
+      <div
+        className="flex-none sticky bottom-0 flex items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/60 backdrop-blur-md"
+        style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
+      >
+        <button
+          type="button"
+          onClick={onDiscard}
+          disabled={saving}
+          className="px-5 py-2.5 rounded-full bg-white/10 border border-white/20 text-white font-semibold text-[13px] hover:bg-white/15 transition-colors disabled:opacity-50"
+        >
+          Discard
+        </button>
+        <button
+          type="button"
+          onClick={onSave}
+          disabled={saving}
+          className="px-5 py-2.5 rounded-full bg-emerald-500 text-white font-semibold text-[13px] shadow-lg hover:bg-emerald-400 transition-colors disabled:opacity-50"
+        >
+          {saving ? 'Saving…' : 'Save to Gallery'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ClipReview;
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  COMPARISON_LAYOUT_LABELS,
+  DEFAULT_COMPARISON_OPTIONS,
+  renderComparison,
+  type ComparisonInput,
+  type ComparisonOptions,
+} from '@/lib/comparison-export';
+import { shareOrDownload } from '@/lib/share';
+
+type Props = {
+  input: ComparisonInput;
+  onClose: () => void;
+};
+
+function OptionChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1.5 rounded-full text-[11px] font-medium border transition-colors ${
+        active ? 'bg-white text-[#1a1a1b] border-white' : 'bg-white/5 text-white/75 border-white/15 hover:bg-white/10'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+/** Comparison export overlay: pick a layout and overlays, preview the result, then share or save it. */
+export function ComparisonExport({ input, onClose }: Props) {
+  const [options, setOptions] = useState<ComparisonOptions>(DEFAULT_COMPARISON_OPTIONS);
+  const [result, setResult] = useState<{ blob: Blob; url: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sharing, setSharing] = useState(false);
+
+  // Re-render on every option change; the preview is the exact file that gets shared.
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    renderComparison(input, options)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setResult({ blob, url });
+        setError(null);
+      })
+      .catch((err) => {
+        console.error(err);
+        if (!cancelled) setError('Could not render the comparison');
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [input, options]);
+
+  const update = (patch: Partial<ComparisonOptions>) => setOptions((o) => ({ ...o, ...patch }));
+
+  const handleShare = async () => {
+    if (!result) return;
+    setSharing(true);
+    try {
+      await shareOrDownload(result.blob, 'pose-comparison', 'Pose comparison');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col bg-[#1a1a1b] overflow-auto"
+      style={{ paddingTop: 'max(0.5rem, env(safe-area-inset-top))' }}
+    >
+      <div className="flex-none px-3 py-2 text-center">
+        <p className="text-[13px] text-white/80">Export comparison</p>
+        <p className="text-[11px] text-white/50 mt-0.5">Inspiration and your shot in one image</p>
+      </div>
+      <div className="flex-1 min-h-0 px-4 py-3 flex items-center justify-center">
+        {error ? (
+          <p className="text-[13px] text-red-300">{error}</p>
+        ) : result ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={result.url} alt="Comparison preview" className="max-w-full max-h-full object-contain rounded-xl" />
+        ) : (
+          <p className="text-[13px] text-white/50">Rendering…</p>
+        )}
+      </div>
+      <div className="flex-none px-4 pb-3 flex flex-col items-center gap-2">
+        <div className="flex flex-wrap justify-center gap-2">
+          {(Object.keys(COMPARISON_LAYOUT_LABELS) as ComparisonOptions['layout'][]).map((layout) => (
+            <OptionChip key={layout} active={options.layout === layout} onClick={() => update({ layout })}>
+              {COMPARISON_LAYOUT_LABELS[layout]}
+            </OptionChip>
+          ))}
+          <OptionChip active={options.showSkeleton} onClick={() => update({ showSkeleton: !options.showSkeleton })}>
+            Skeletons
+          </OptionChip>
+          <OptionChip active={options.showScore} onClick={() => update({ showScore: !options.showScore })}>
+            Score
+          </OptionChip>
+          <OptionChip
+            active={options.format === 'image/png'}
+            onClick={() => update({ format: options.format === 'image/png' ? 'image/jpeg' : 'image/png' })}
+          >
+            {options.format === 'image/png' ? 'PNG' : 'JPEG'}
+          </OptionChip>
+        </div>
+        {options.layout === 'before-after' && (
+          <label className="flex items-center gap-2 text-[11px] text-white/60 w-full max-w-xs">
+            Split
+            <input
+              type="range"
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={options.split}
+              onChange={(e) => update({ split: Number(e.target.value) })}
+              className="flex-1 accent-white"
+            />
+          </label>
+        )}
+      </div>
+      <div
+        className="flex-none sticky bottom-0 flex items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/60 backdrop-blur-md"
+        style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-5 py-2.5 rounded-full bg-white/10 border border-white/20 text-white font-semibold text-[13px] hover:bg-white/15 transition-colors"
+        >
+          Close
+        </button>
+        <button
+          type="button"
+          onClick={handleShare}
+          disabled={!result || sharing}
+          className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg hover:bg-white/90 transition-colors disabled:opacity-50"
+        >
+          {sharing ? 'Sharing…' : 'Share / Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ComparisonExport;
@@ -0,0 +1,14 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/** Registers public/sw.js in production builds (dev keeps hot reload cache-free). */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+    navigator.serviceWorker.register('/sw.js').catch((err) => {
+      console.error('Service worker registration failed:', err);
+    });
+  }, []);
+  return null;
+}
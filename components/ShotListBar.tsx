@@ -0,0 +1,36 @@
+'use client';
+
+import { MAX_SHOT_LIST_SIZE, type ShotListPose } from '@/lib/shot-list';
+
+type Props = {
+  poses: ShotListPose[];
+  onClear: () => void;
+  onStart: () => void;
+};
+
+/** Floating shot-list draft bar on Browse and Saved: how many poses are queued, clear or start shooting. */
+export function ShotListBar({ poses, onClear, onStart }: Props) {
+  if (!poses.length) return null;
+  return (
+    <div className="fixed bottom-20 inset-x-0 z-40 flex justify-center px-4 pointer-events-none">
+      <div className="pointer-events-auto flex items-center gap-3 pl-4 pr-1.5 py-1.5 rounded-full bg-zinc-900/95 border border-white/15 shadow-2xl backdrop-blur-md">
+        <span className="text-sm text-white/80">
+          Shot list · {poses.length}
+          {poses.length >= MAX_SHOT_LIST_SIZE ? ' (full)' : ` pose${poses.length !== 1 ? 's' : ''}`}
+        </span>
+        <button type="button" onClick={onClear} className="text-xs text-white/50 hover:text-white">
+          Clear
+        </button>
+        <button
+          type="button"
+          onClick={onStart}
+          className="px-4 py-2 rounded-full bg-white text-black text-sm font-semibold"
+        >
+          Start shoot
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ShotListBar;
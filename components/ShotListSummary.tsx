@@ -0,0 +1,70 @@
+'use client';
+
+import type { Shot } from '@/lib/shot-list';
+
+type Props = {
+  shots: Shot[];
+  onRetake: (index: number) => void;
+  onDone: () => void;
+};
+
+/** End-of-shoot overlay: every shot in the list with its photo and score; any shot can be retaken. */
+export function ShotListSummary({ shots, onRetake, onDone }: Props) {
+  const taken = shots.filter((s) => s.status === 'taken');
+  const average = taken.length ? Math.round(taken.reduce((s, shot) => s + (shot.score ?? 0), 0) / taken.length) : null;
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex flex-col bg-[#1a1a1b] overflow-auto"
+      style={{ paddingTop: 'max(0.5rem, env(safe-area-inset-top))' }}
+    >
+      <div className="flex-none px-3 py-2 text-center">
+        <p className="text-[13px] text-white/80">Shoot complete</p>
+        <p className="text-[11px] text-white/50 mt-0.5">
+          {taken.length} of {shots.length} taken{average != null ? ` · ${average}% average match` : ''}
+        </p>
+      </div>
+      <div className="flex-1 px-4 py-3 grid grid-cols-2 md:grid-cols-4 gap-3">
+        {shots.map((shot, i) => (
+          <div key={i} className="relative rounded-xl overflow-hidden border border-white/10 bg-white/5">
+            {shot.photoDataUrl ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={shot.photoDataUrl} alt={shot.pose.name} className="w-full aspect-[3/4] object-cover" />
+            ) : (
+              <div className="w-full aspect-[3/4] flex items-center justify-center text-[12px] text-white/40">Skipped</div>
+            )}
+            <div className="p-2 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-[12px] text-white/80 truncate">{shot.pose.name}</p>
+                <p className="text-[11px] text-white/50 tabular-nums">
+                  {shot.score != null ? `${Math.round(shot.score)}% match` : '—'}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onRetake(i)}
+                className="shrink-0 px-2.5 py-1 rounded-full bg-white/10 border border-white/15 text-[11px] text-white/80 hover:bg-white/15"
+              >
+                {shot.status === 'taken' ? 'Retake' : 'Shoot'}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+      <div
+        className="flex-none sticky bottom-0 flex items-center justify-center px-4 py-4 border-t border-white/[0.06] bg-black/60 backdrop-blur-md"
+        style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
+      >
+        <button
+          type="button"
+          onClick={onDone}
+          className="px-5 py-2.5 rounded-full bg-white text-[#1a1a1b] font-semibold text-[13px] shadow-lg hover:bg-white/90 transition-colors"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default ShotListSummary;
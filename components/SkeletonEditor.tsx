@@ -0,0 +1,210 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ImageSize, Landmark, PoseLandmarks } from '@/lib/pose-matching';
+
+type Props = {
+  imageUrl: string;
+  /** Skeleton to start from; null (detection failed) starts from a neutral standing pose. */
+  initialLandmarks: PoseLandmarks;
+  onSave: (landmarks: Landmark[], imageSize: ImageSize) => void;
+  onCancel: () => void;
+};
+
+/** Joints the user can drag or ignore: nose, arms, hips, legs. */
+const EDITABLE_JOINTS = [0, 11, 12, 13, 14, 15, 16, 23, 24, 25, 26, 27, 28] as const;
+const EDITOR_CONNECTIONS: [number, number][] = [
+  [11, 12], [11, 13], [13, 15], [12, 14], [14, 16],
+  [11, 23], [12, 24], [23, 24], [23, 25], [25, 27], [24, 26], [26, 28],
+];
+const JOINT_LABELS: Record<number, string> = {
+  0: 'Nose', 11: 'Left shoulder', 12: 'Right shoulder', 13: 'Left elbow', 14: 'Right elbow',
+  15: 'Left wrist', 16: 'Right wrist', 23: 'Left hip', 24: 'Right hip',
+  25: 'Left knee', 26: 'Right knee', 27: 'Left ankle', 28: 'Right ankle',
+};
+/** Neutral standing pose (subject facing camera, so their left is image right). */
+const STANDING_POSE: Record<number, [number, number]> = {
+  0: [0.5, 0.14], 11: [0.6, 0.28], 12: [0.4, 0.28], 13: [0.64, 0.42], 14: [0.36, 0.42],
+  15: [0.66, 0.55], 16: [0.34, 0.55], 23: [0.56, 0.55], 24: [0.44, 0.55],
+  25: [0.57, 0.72], 26: [0.43, 0.72], 27: [0.57, 0.9], 28: [0.43, 0.9],
+};
+/** Eyes, ears and mouth: not editable, they follow the nose so the face stays in one piece. */
+const FACE_JOINTS = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] as const;
+/** MediaPipe's z is measured from the hips, so moving either one invalidates every joint's z. */
+const HIP_JOINTS = [23, 24] as const;
+/** Touch target radius in CSS pixels. */
+const HIT_RADIUS = 24;
+const MAX_CANVAS_WIDTH = 640;
+
+function createStandingSkeleton(): Landmark[] {
+  return Array.from({ length: 33 }, (_, i) => {
+    const p = STANDING_POSE[i];
+    return p ? { x: p[0], y: p[1], z: 0, visibility: 1 } : { x: 0.5, y: 0.5, z: 0, visibility: 0 };
+  });
+}
+
+const isIgnored = (l: Landmark | undefined) => !l || (l.visibility ?? 1) <= 0;
+
+const withoutDepth = (l: Landmark): Landmark => ({ ...l, z: undefined });
+
+/**
+ * Move `joint` to (x, y). A dragged joint's extracted z no longer matches it, so it's dropped;
+ * the face moves along with the nose.
+ */
+function moveJoint(landmarks: Landmark[], joint: number, x: number, y: number): Landmark[] {
+  const from = landmarks[joint];
+  const dx = x - from.x, dy = y - from.y;
+  const flatten = (HIP_JOINTS as readonly number[]).includes(joint);
+  return landmarks.map((l, i) => {
+    if (i === joint) return withoutDepth({ ...l, x, y, visibility: 1 });
+    if (joint === 0 && (FACE_JOINTS as readonly number[]).includes(i)) {
+      return withoutDepth({ ...l, x: Math.min(1, Math.max(0, l.x + dx)), y: Math.min(1, Math.max(0, l.y + dy)) });
+    }
+    return flatten ? withoutDepth(l) : l;
+  });
+}
+
+/** Drag joints on the template image, mark joints as ignored, save the corrected skeleton. */
+export function SkeletonEditor({ imageUrl, initialLandmarks, onSave, onCancel }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [landmarks, setLandmarks] = useState<Landmark[]>(() =>
+    initialLandmarks?.length ? initialLandmarks.map((l) => ({ ...l })) : createStandingSkeleton()
+  );
+  const [selected, setSelected] = useState<number | null>(null);
+  const draggingRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => setImage(img);
+    img.src = imageUrl;
+  }, [imageUrl]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !image) return;
+    const scale = Math.min(1, MAX_CANVAS_WIDTH / image.naturalWidth);
+    const w = Math.round(image.naturalWidth * scale);
+    const h = Math.round(image.naturalHeight * scale);
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(image, 0, 0, w, h);
+
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+    for (const [a, b] of EDITOR_CONNECTIONS) {
+      const la = landmarks[a], lb = landmarks[b];
+      if (isIgnored(la) || isIgnored(lb)) continue;
+      ctx.beginPath(); ctx.moveTo(la.x * w, la.y * h); ctx.lineTo(lb.x * w, lb.y * h); ctx.stroke();
+    }
+    for (const i of EDITABLE_JOINTS) {
+      const l = landmarks[i];
+      if (!l) continue;
+      ctx.beginPath();
+      ctx.arc(l.x * w, l.y * h, i === selected ? 9 : 6, 0, Math.PI * 2);
+      ctx.fillStyle = isIgnored(l) ? 'rgba(248,113,113,0.5)' : i === selected ? 'rgba(52,211,153,1)' : 'rgba(255,255,255,0.95)';
+      ctx.fill();
+      ctx.lineWidth = 2;
+      ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+      ctx.stroke();
+    }
+  }, [image, landmarks, selected]);
+
+  /** Pointer → normalized image coordinates. */
+  const toNormalized = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+      rect,
+    };
+  }, []);
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const { x, y, rect } = toNormalized(e);
+    let nearest: number | null = null;
+    let nearestDist = HIT_RADIUS;
+    for (const i of EDITABLE_JOINTS) {
+      const l = landmarks[i];
+      if (!l) continue;
+      const d = Math.hypot((l.x - x) * rect.width, (l.y - y) * rect.height);
+      if (d < nearestDist) {
+        nearest = i;
+        nearestDist = d;
+      }
+    }
+    setSelected(nearest);
+    if (nearest == null) return;
+    draggingRef.current = nearest;
+    e.currentTarget.setPointerCapture(e.pointerId);
+  }, [landmarks, toNormalized]);
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const joint = draggingRef.current;
+    if (joint == null) return;
+    const { x, y } = toNormalized(e);
+    setLandmarks((prev) => moveJoint(prev, joint, x, y));
+  }, [toNormalized]);
+
+  const onPointerUp = useCallback(() => {
+    draggingRef.current = null;
+  }, []);
+
+  const toggleIgnored = () => {
+    if (selected == null) return;
+    setLandmarks((prev) => prev.map((l, i) => (i === selected ? { ...l, visibility: isIgnored(l) ? 1 : 0 } : l)));
+  };
+
+  const selectedLandmark = selected != null ? landmarks[selected] : undefined;
+
+  return (
+    <div className="w-full max-w-lg flex flex-col items-center">
+      <p className="text-sm text-white/70 mb-2">Drag joints onto the body. Tap a joint to select it.</p>
+      <div className="relative w-full rounded-xl overflow-hidden bg-black/50">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={onPointerDown}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+          onPointerCancel={onPointerUp}
+          className="w-full h-auto touch-none cursor-pointer"
+          style={{ maxHeight: '70vh' }}
+        />
+      </div>
+      <div className="mt-3 w-full max-w-sm flex items-center justify-between gap-2 text-sm">
+        <span className="text-white/60 truncate">
+          {selected != null ? `${JOINT_LABELS[selected]}${isIgnored(selectedLandmark) ? ' (ignored)' : ''}` : 'No joint selected'}
+        </span>
+        <button
+          type="button"
+          onClick={toggleIgnored}
+          disabled={selected == null}
+          className="shrink-0 px-3 py-1.5 rounded-full bg-white/10 border border-white/20 text-xs font-medium disabled:opacity-40"
+        >
+          {isIgnored(selectedLandmark) ? 'Use joint' : 'Ignore joint'}
+        </button>
+      </div>
+      <div className="mt-4 w-full max-w-sm grid grid-cols-2 gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="py-3 rounded-xl bg-white/10 border border-white/20 text-sm font-semibold hover:bg-white/15 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={() => image && onSave(landmarks, { width: image.naturalWidth, height: image.naturalHeight })}
+          disabled={!image}
+          className="py-3 rounded-xl bg-green-600 hover:bg-green-500 text-white text-sm font-semibold transition-colors disabled:opacity-50"
+        >
+          Save skeleton
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default SkeletonEditor;
@@ -0,0 +1,72 @@
+'use client';
+
+import ClipPlayer from '@/components/ClipPlayer';
+import type { ScoreSample } from '@/lib/storage';
+
+type Props = {
+  /** Object URL of the picked video file. */
+  src: string;
+  /** Share of frames scored so far, 0–1. */
+  progress: number;
+  /** Score per sampled frame; null while scoring. */
+  timeline: ScoreSample[] | null;
+  threshold?: number;
+  /** Top frames are being pulled out of the video. */
+  picking?: boolean;
+  onPickFrames: () => void;
+  onClose: () => void;
+};
+
+/** Video file overlay: scoring progress, then the score over time and the way to its best frames. */
+export function VideoAnalysis({ src, progress, timeline, threshold, picking = false, onPickFrames, onClose }: Props) {
+  const peak = Math.max(0, ...(timeline ?? []).map((s) => s.score));
+
+  return (
+    <div
+      className="absolute inset-0 z-50 flex flex-col bg-[#1a1a1b] overflow-auto"
+      style={{ paddingTop: 'max(0.5rem, env(safe-area-inset-top))' }}
+    >
+      <div className="flex-none px-3 py-2 text-center">
+        <p className="text-[13px] text-white/80">{timeline ? 'Video scored' : 'Scoring video…'}</p>
+        <p className="text-[11px] text-white/50 mt-0.5">
+          {timeline
+            ? `Peak ${peak}% match · ${timeline.length} frames · drag the graph to scrub`
+            : `${Math.round(progress * 100)}% · every frame goes through the live matcher`}
+        </p>
+      </div>
+      <div className="flex-1 px-4 py-3 flex justify-center">
+        {timeline ? (
+          <ClipPlayer src={src} timeline={timeline} threshold={threshold} className="w-full max-w-lg" />
+        ) : (
+          <div className="w-full max-w-lg self-center h-1.5 rounded-full bg-white/10 overflow-hidden">
+            <div className="h-full bg-emerald-400 transition-[width]" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+      </div>
+      <div
+        className="flex-none sticky bottom-0 flex items-center justify-center gap-3 px-4 py-4 border-t border-white/[0.06] bg-black/60 backdrop-blur-md"
+        style={{ paddingBottom: 'max(1rem, env(safe-area-inset-bottom))' }}
+      >
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-5 py-2.5 rounded-full bg-white/10 border border-white/20 text-white font-semibold text-[13px] hover:bg-white/15 transition-colors"
+        >
+          {timeline ? 'Back to camera' : 'Cancel'}
+        </button>
+        {timeline && (
+          <button
+            type="button"
+            onClick={onPickFrames}
+            disabled={picking || peak === 0}
+            className="px-5 py-2.5 rounded-full bg-emerald-500 text-white font-semibold text-[13px] shadow-lg hover:bg-emerald-400 transition-colors disabled:opacity-50"
+          >
+            {picking ? 'Extracting…' : 'Pick top frames'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default VideoAnalysis;
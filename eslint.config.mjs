@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Generated by scripts/prepare-offline-assets.mjs (vendored MediaPipe runtime).
+    "public/mediapipe/**",
   ]),
 ]);
 
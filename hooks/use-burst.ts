@@ -0,0 +1,116 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import type { BurstFrame } from '@/components/BurstReview';
+import { captureStill, toStillSpace, type CaptureOutputMode } from '@/lib/capture-output';
+import { estimateSharpness, type LightingWarning } from '@/lib/image-analysis';
+import type { PoseLandmarks } from '@/lib/pose-matching';
+
+// ---- Burst: Take picture records BURST_FRAME_COUNT frames, ranked by score then sharpness ----
+export const BURST_FRAME_COUNT = 8;
+const BURST_INTERVAL_MS = 120;
+/** Frames kept from just before the tap while Burst is armed; the rest are recorded after it. */
+const BURST_PRE_FRAMES = 4;
+/** Share of the rank taken from the match score; the rest is relative sharpness. */
+const BURST_SCORE_WEIGHT = 0.7;
+
+/** A burst frame before it is encoded; pre-roll frames that aren't used never are. */
+type BufferedBurstFrame = Pick<BurstFrame, 'landmarks' | 'score' | 'lightingWarnings'> & { canvas: HTMLCanvasElement };
+
+/** Best-first: BURST_SCORE_WEIGHT of the match score, the rest sharpness relative to the sharpest frame. */
+export function rankBurstFrames(frames: Omit<BurstFrame, 'rank'>[]): BurstFrame[] {
+  const maxSharpness = Math.max(1, ...frames.map((f) => f.sharpness));
+  return frames
+    .map((f) => ({ ...f, rank: BURST_SCORE_WEIGHT * f.score + (1 - BURST_SCORE_WEIGHT) * 100 * (f.sharpness / maxSharpness) }))
+    .sort((a, b) => b.rank - a.rank);
+}
+
+type BurstSource = {
+  videoRef: RefObject<HTMLVideoElement | null>;
+  /** Latest live landmarks and lighting warnings, read at each frame. */
+  livePoseRef: RefObject<PoseLandmarks>;
+  lightingWarningsRef: RefObject<LightingWarning[]>;
+  /** Raw match score for a frame's live landmarks. */
+  scoreFrame: (landmarks: PoseLandmarks) => number;
+  capture: { mode: CaptureOutputMode; templateAspect: number | null; mirrored: boolean };
+  /** The camera is live and nothing is under review: the pre-roll may run. */
+  armed: boolean;
+};
+
+/**
+ * Burst mode: while on and armed, a pre-roll keeps the last BURST_PRE_FRAMES frames; `captureBurst`
+ * adds live frames after the tap up to BURST_FRAME_COUNT and ranks them for review in `burstFrames`.
+ */
+export function useBurst({ videoRef, livePoseRef, lightingWarningsRef, scoreFrame, capture, armed }: BurstSource) {
+  const [burstMode, setBurstMode] = useState(false);
+  const [burstRecording, setBurstRecording] = useState(false);
+  const [burstFrames, setBurstFrames] = useState<BurstFrame[] | null>(null);
+  /** Burst pre-roll: the most recent frames, oldest first (see BURST_PRE_FRAMES). */
+  const burstBufferRef = useRef<BufferedBurstFrame[]>([]);
+  const { mode, templateAspect, mirrored } = capture;
+
+  /** One live frame for a burst: the still with its landmarks, raw score and lighting. Encoded only if it's kept. */
+  const grabBurstFrame = useCallback(async (): Promise<BufferedBurstFrame | null> => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2) return null;
+    const landmarks = livePoseRef.current;
+    // Video frames, not takePhoto(): a burst needs its frames BURST_INTERVAL_MS apart.
+    const still = await captureStill(video, null, { mode, templateAspect, mirrored, sensorPhoto: false });
+    if (!still) return null;
+    return {
+      canvas: still.canvas,
+      landmarks: landmarks ? toStillSpace(landmarks, still.rect, mirrored) : null,
+      score: scoreFrame(landmarks),
+      lightingWarnings: lightingWarningsRef.current,
+    };
+  }, [videoRef, livePoseRef, lightingWarningsRef, scoreFrame, mode, templateAspect, mirrored]);
+
+  // Pre-roll: while Burst is armed, keep the last BURST_PRE_FRAMES frames so a burst can start before the tap.
+  useEffect(() => {
+    burstBufferRef.current = [];
+    if (!burstMode || !armed || burstRecording || burstFrames) return;
+    let cancelled = false;
+    let grabbing = false;
+    const interval = setInterval(async () => {
+      if (grabbing) return;
+      grabbing = true;
+      const frame = await grabBurstFrame();
+      grabbing = false;
+      if (cancelled || !frame) return;
+      burstBufferRef.current = [...burstBufferRef.current, frame].slice(-BURST_PRE_FRAMES);
+    }, BURST_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [burstMode, armed, burstRecording, burstFrames, grabBurstFrame]);
+
+  /**
+   * Burst around the tap: the pre-roll frames from just before it, then live frames up to
+   * BURST_FRAME_COUNT, each with its landmarks and raw score; ranked for review.
+   */
+  const captureBurst = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2 || burstRecording) return;
+    const frames = burstBufferRef.current;
+    burstBufferRef.current = [];
+    setBurstRecording(true);
+    for (let i = frames.length; i < BURST_FRAME_COUNT; i++) {
+      if (i > 0) await new Promise((r) => setTimeout(r, BURST_INTERVAL_MS));
+      const frame = await grabBurstFrame();
+      if (frame) frames.push(frame);
+    }
+    const ranked = rankBurstFrames(
+      frames.map(({ canvas, ...frame }, i) => ({
+        ...frame,
+        id: `${Date.now()}-${i}`,
+        dataUrl: canvas.toDataURL('image/jpeg', 0.9),
+        sharpness: estimateSharpness(canvas, canvas.width, canvas.height),
+      }))
+    );
+    setBurstRecording(false);
+    if (ranked.length) setBurstFrames(ranked);
+  }, [videoRef, burstRecording, grabBurstFrame]);
+
+  return { burstMode, setBurstMode, burstRecording, burstFrames, setBurstFrames, captureBurst };
+}
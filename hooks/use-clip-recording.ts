@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+import type { ScoreSample } from '@/lib/storage';
+import type { LightingWarning } from '@/lib/image-analysis';
+
+// ---- Record: composited canvas (video + ghost) to a clip, with a per-frame score timeline ----
+/** Clips are stored as data URLs, so keep them short and modest in bitrate. */
+export const RECORD_MAX_MS = 20000;
+const RECORD_BITS_PER_SECOND = 1_500_000;
+const RECORD_FPS = 30;
+const RECORD_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm', 'video/mp4'];
+
+export type RecordedClip = {
+  url: string;
+  blob: Blob;
+  timeline: ScoreSample[];
+  lightingWarnings: LightingWarning[];
+};
+
+/** First clip format this browser's MediaRecorder supports; null when it can't record a canvas. */
+function getRecordingMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined' || typeof HTMLCanvasElement === 'undefined') return null;
+  if (typeof HTMLCanvasElement.prototype.captureStream !== 'function') return null;
+  return RECORD_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * Record the composited camera canvas to a clip, stopping at RECORD_MAX_MS or when `active` goes false.
+ * While recording, the scoring and lighting loops log into the clip through `logScore` and `logLighting`.
+ */
+export function useClipRecording(canvasRef: RefObject<HTMLCanvasElement | null>, active: boolean, notify: (message: string) => void) {
+  const [recordingMimeType] = useState(getRecordingMimeType);
+  const [recordingStartedAt, setRecordingStartedAt] = useState<number | null>(null);
+  const [recordingElapsed, setRecordingElapsed] = useState(0);
+  const [recordedClip, setRecordedClip] = useState<RecordedClip | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  /** performance.now() at record start; logScore writes into clipTimelineRef while set. */
+  const recordStartRef = useRef<number | null>(null);
+  const clipTimelineRef = useRef<ScoreSample[]>([]);
+  /** Every lighting warning seen while recording. */
+  const clipLightingRef = useRef<Set<LightingWarning>>(new Set());
+
+  /** Record the composited canvas, so the clip shows exactly what the subject saw (video + ghost). */
+  const startRecording = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !recordingMimeType || recorderRef.current) return;
+    const stream = canvas.captureStream(RECORD_FPS);
+    let recorder: MediaRecorder;
+    try {
+      recorder = new MediaRecorder(stream, { mimeType: recordingMimeType, videoBitsPerSecond: RECORD_BITS_PER_SECOND });
+    } catch (err) {
+      console.error(err);
+      stream.getTracks().forEach((t) => t.stop());
+      notify('Recording not supported');
+      return;
+    }
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((t) => t.stop());
+      recorderRef.current = null;
+      recordStartRef.current = null;
+      setRecordingStartedAt(null);
+      const blob = new Blob(chunks, { type: recorder.mimeType || recordingMimeType });
+      if (blob.size > 0) {
+        setRecordedClip({
+          url: URL.createObjectURL(blob),
+          blob,
+          timeline: clipTimelineRef.current,
+          lightingWarnings: [...clipLightingRef.current],
+        });
+      }
+    };
+    clipTimelineRef.current = [];
+    clipLightingRef.current = new Set();
+    recorderRef.current = recorder;
+    recorder.start(1000);
+    const now = performance.now();
+    recordStartRef.current = now;
+    setRecordingStartedAt(now);
+    setRecordingElapsed(0);
+  }, [canvasRef, recordingMimeType, notify]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+  }, []);
+
+  /** Add a score to the clip's timeline; does nothing when not recording. */
+  const logScore = useCallback((score: number) => {
+    if (recordStartRef.current == null) return;
+    clipTimelineRef.current.push({ t: Math.round(performance.now() - recordStartRef.current), score });
+  }, []);
+
+  /** Note lighting warnings seen during the clip; does nothing when not recording. */
+  const logLighting = useCallback((warnings: LightingWarning[]) => {
+    if (recordStartRef.current == null) return;
+    warnings.forEach((w) => clipLightingRef.current.add(w));
+  }, []);
+
+  // Tick the elapsed seconds and stop at RECORD_MAX_MS.
+  useEffect(() => {
+    if (recordingStartedAt == null) return;
+    const id = setInterval(() => {
+      const elapsed = performance.now() - recordingStartedAt;
+      setRecordingElapsed(Math.floor(elapsed / 1000));
+      if (elapsed >= RECORD_MAX_MS) stopRecording();
+    }, 250);
+    return () => clearInterval(id);
+  }, [recordingStartedAt, stopRecording]);
+
+  // Leaving the camera stops a running recording.
+  useEffect(() => {
+    if (!active) stopRecording();
+  }, [active, stopRecording]);
+
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach((t) => t.stop());
+    }
+  }, []);
+
+  const discardClip = useCallback(() => {
+    if (recordedClip) URL.revokeObjectURL(recordedClip.url);
+    setRecordedClip(null);
+  }, [recordedClip]);
+
+  return {
+    recordingMimeType,
+    recordingStartedAt,
+    recordingElapsed,
+    recordedClip,
+    startRecording,
+    stopRecording,
+    discardClip,
+    logScore,
+    logLighting,
+  };
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import { useCallback, useRef, useState } from 'react';
+import type { MatchProfile } from '@/lib/match-profiles';
+
+/**
+ * Success with hysteresis: a streak starts at the threshold and only ends below threshold − exitMargin,
+ * so a dip doesn't restart the hold. `displaySuccess` turns on once the streak has lasted holdMs.
+ */
+export function useMatchSuccess({ threshold, exitMargin, holdMs }: Pick<MatchProfile, 'threshold' | 'exitMargin' | 'holdMs'>) {
+  const [displaySuccess, setDisplaySuccess] = useState(false);
+  /** When the score first reached the threshold in the current streak. */
+  const successSinceRef = useRef<number | null>(null);
+
+  /** Feed a new score; true while the streak lasts. */
+  const updateSuccess = useCallback((score: number) => {
+    const inStreak = successSinceRef.current != null;
+    if (score < (inStreak ? threshold - exitMargin : threshold)) {
+      successSinceRef.current = null;
+      setDisplaySuccess(false);
+      return false;
+    }
+    const now = performance.now();
+    successSinceRef.current ??= now;
+    if (now - successSinceRef.current >= holdMs) setDisplaySuccess(true);
+    return true;
+  }, [threshold, exitMargin, holdMs]);
+
+  return { displaySuccess, updateSuccess };
+}
@@ -0,0 +1,99 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState, type RefObject } from 'react';
+
+// ---- Self-timer: countdown with beeps; optionally waits for a match before firing ----
+export const TIMER_OPTIONS = [0, 3, 5, 10] as const;
+export type TimerSeconds = (typeof TIMER_OPTIONS)[number];
+/** After the countdown, how long "wait for match" waits before capturing anyway. */
+const TIMER_MATCH_DEADLINE_MS = 10000;
+
+export type TimerPhase = { kind: 'counting' | 'waiting'; until: number };
+
+/** Short sine beep for timer cues. The AudioContext must come from a user gesture. */
+function playBeep(audioCtx: AudioContext | null, frequency: number, durationMs: number) {
+  if (!audioCtx) return;
+  const osc = audioCtx.createOscillator();
+  const gain = audioCtx.createGain();
+  osc.frequency.value = frequency;
+  gain.gain.setValueAtTime(0.2, audioCtx.currentTime);
+  gain.gain.exponentialRampToValueAtTime(0.001, audioCtx.currentTime + durationMs / 1000);
+  osc.connect(gain).connect(audioCtx.destination);
+  osc.start();
+  osc.stop(audioCtx.currentTime + durationMs / 1000);
+}
+
+/**
+ * Self-timer: counts down with a beep each second, then calls `onFire` — or, with wait-for-match on,
+ * waits until the live score (`matchScoreRef`) reaches `threshold` or TIMER_MATCH_DEADLINE_MS passes.
+ */
+export function useSelfTimer(onFire: () => void, matchScoreRef: RefObject<number>, threshold: number) {
+  const [timerSeconds, setTimerSeconds] = useState<TimerSeconds>(0);
+  const [timerWaitForMatch, setTimerWaitForMatch] = useState(false);
+  const [timerPhase, setTimerPhase] = useState<TimerPhase | null>(null);
+  const [timerRemaining, setTimerRemaining] = useState(0);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const lastBeepSecondRef = useRef(0);
+
+  const cycleTimerSeconds = useCallback(() => {
+    setTimerSeconds((t) => TIMER_OPTIONS[(TIMER_OPTIONS.indexOf(t) + 1) % TIMER_OPTIONS.length]);
+  }, []);
+
+  /** Start (or cancel) the self-timer. Runs from the tap, so the AudioContext is allowed to start. */
+  const toggleSelfTimer = useCallback(() => {
+    if (timerPhase) {
+      setTimerPhase(null);
+      return;
+    }
+    if (!audioCtxRef.current && typeof window !== 'undefined' && 'AudioContext' in window) {
+      audioCtxRef.current = new AudioContext();
+    }
+    audioCtxRef.current?.resume().catch(() => {});
+    lastBeepSecondRef.current = 0;
+    setTimerRemaining(timerSeconds);
+    setTimerPhase({ kind: 'counting', until: Date.now() + timerSeconds * 1000 });
+  }, [timerPhase, timerSeconds]);
+
+  // Beep each second, then fire — or wait for a match until TIMER_MATCH_DEADLINE_MS.
+  useEffect(() => {
+    if (!timerPhase) return;
+    const fire = () => {
+      playBeep(audioCtxRef.current, 1320, 350);
+      setTimerPhase(null);
+      onFire();
+    };
+    const tick = () => {
+      const now = Date.now();
+      if (timerPhase.kind === 'counting') {
+        const remaining = Math.ceil((timerPhase.until - now) / 1000);
+        if (remaining > 0) {
+          if (remaining !== lastBeepSecondRef.current) {
+            lastBeepSecondRef.current = remaining;
+            playBeep(audioCtxRef.current, 880, 120);
+            setTimerRemaining(remaining);
+          }
+          return;
+        }
+        if (timerWaitForMatch && matchScoreRef.current < threshold) {
+          setTimerPhase({ kind: 'waiting', until: now + TIMER_MATCH_DEADLINE_MS });
+          return;
+        }
+        fire();
+      } else if (matchScoreRef.current >= threshold || now >= timerPhase.until) {
+        fire();
+      }
+    };
+    const i = setInterval(tick, 100);
+    return () => clearInterval(i);
+  }, [timerPhase, timerWaitForMatch, onFire, matchScoreRef, threshold]);
+
+  return {
+    timerSeconds,
+    cycleTimerSeconds,
+    timerWaitForMatch,
+    setTimerWaitForMatch,
+    timerPhase,
+    timerRemaining,
+    toggleSelfTimer,
+  };
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { useCallback, useState } from 'react';
+import { fetchSavedPhotoById } from '@/lib/storage';
+import { getNextPendingShot, type Shot } from '@/lib/shot-list';
+
+type ShotPose = { id?: string; name?: string; imageUrl: string };
+
+/**
+ * Shot list session on the camera (lib/shot-list.ts): which shot is up, and every shot's status
+ * and kept photo. `loadPose` makes a shot's pose the template and resolves to whether a pose was found.
+ */
+export function useShotList(loadPose: (pose: ShotPose) => Promise<boolean>, notify: (message: string) => void) {
+  /** Every shot's status and kept photo; null outside a shot list. */
+  const [shots, setShots] = useState<Shot[] | null>(null);
+  /** Shot being taken; null with shots set means the list is done and the summary shows. */
+  const [currentShot, setCurrentShot] = useState<number | null>(null);
+
+  /**
+   * Start shooting `list[index]` (null shows the summary). Saved poses are fetched first;
+   * shots whose pose can't be found are skipped on to the next pending one.
+   */
+  const goToShot = useCallback(async (list: Shot[], index: number | null) => {
+    let shotsNow = list;
+    let i = index;
+    while (i != null) {
+      setShots(shotsNow);
+      setCurrentShot(i);
+      const { pose } = shotsNow[i];
+      let imageUrl = pose.imageUrl;
+      if (!imageUrl && pose.savedId) {
+        imageUrl = await fetchSavedPhotoById(pose.savedId).then((saved) => saved?.photoDataUrl, (err) => {
+          console.error(err);
+          return undefined;
+        });
+      }
+      if (imageUrl && await loadPose({ id: pose.id, name: pose.name, imageUrl })) return;
+      notify(`No pose found in ${pose.name} — skipped`);
+      const skippedAt = i;
+      shotsNow = shotsNow.map((s, k) => (k === skippedAt ? { ...s, status: 'skipped' as const } : s));
+      i = getNextPendingShot(shotsNow, skippedAt);
+    }
+    setShots(shotsNow);
+    setCurrentShot(null);
+  }, [loadPose, notify]);
+
+  /** Keep a photo for the current shot and move on to the next pending one. */
+  const completeShot = useCallback((photoDataUrl: string, score: number) => {
+    if (!shots || currentShot == null) return;
+    const next = shots.map((s, i) => (i === currentShot ? { ...s, status: 'taken' as const, photoDataUrl, score } : s));
+    goToShot(next, getNextPendingShot(next, currentShot));
+  }, [shots, currentShot, goToShot]);
+
+  const skipShot = useCallback(() => {
+    if (!shots || currentShot == null) return;
+    const next = shots.map((s, i) => (i === currentShot ? { ...s, status: 'skipped' as const } : s));
+    goToShot(next, getNextPendingShot(next, currentShot));
+  }, [shots, currentShot, goToShot]);
+
+  /** Shoot `index` again; its old photo stays in the summary until a new one is kept. */
+  const retakeShot = useCallback((index: number) => {
+    if (!shots) return;
+    goToShot(shots.map((s, i) => (i === index ? { ...s, status: 'pending' as const } : s)), index);
+  }, [shots, goToShot]);
+
+  const endShotList = useCallback(() => setShots(null), []);
+
+  return { shots, currentShot, goToShot, completeShot, skipShot, retakeShot, endShotList };
+}
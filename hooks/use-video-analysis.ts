@@ -0,0 +1,114 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { BurstFrame } from '@/components/BurstReview';
+import { getPoseBounds } from '@/lib/composition';
+import { analyzeExposure, estimateSharpness } from '@/lib/image-analysis';
+import type { PoseEstimator } from '@/lib/pose-estimator';
+import type { PoseLandmarks } from '@/lib/pose-matching';
+import type { ScoreSample } from '@/lib/storage';
+import { grabVideoFrame, openVideo, pickTopFrames, scoreVideoFrames, VIDEO_MAX_DURATION_S, type VideoFrameScore } from '@/lib/video-analysis';
+import { rankBurstFrames } from '@/hooks/use-burst';
+
+export type VideoAnalysisState = { url: string; progress: number; timeline: ScoreSample[] | null };
+
+type VideoAnalysisOptions = {
+  /** A fresh estimator for one file, with MediaPipe's smoothing off; closed once the file is scored. */
+  createEstimator: () => PoseEstimator;
+  /** Match score for a frame's landmarks; null when there's no template to score against. */
+  scoreFrame: ((landmarks: PoseLandmarks) => number) | null;
+  /** A file was picked and is about to be scored; the live camera stops meanwhile. */
+  onStart: () => void;
+  /** Top frames, ranked like a burst, for review. */
+  onFrames: (frames: BurstFrame[]) => void;
+  notify: (message: string) => void;
+};
+
+/**
+ * "Video file" source (lib/video-analysis.ts): score a picked video frame by frame with the live
+ * pipeline, then pull its top frames out at full resolution. `videoAnalysis` is set while it's open.
+ */
+export function useVideoAnalysis({ createEstimator, scoreFrame, onStart, onFrames, notify }: VideoAnalysisOptions) {
+  const [videoAnalysis, setVideoAnalysis] = useState<VideoAnalysisState | null>(null);
+  const [pickingVideoFrames, setPickingVideoFrames] = useState(false);
+  const videoAnalysisAbortRef = useRef<AbortController | null>(null);
+  /** The decoded video and its per-frame scores, kept for pulling out top frames. */
+  const analyzedVideoRef = useRef<{ video: HTMLVideoElement; samples: VideoFrameScore[] } | null>(null);
+
+  const closeVideoAnalysis = useCallback(() => {
+    videoAnalysisAbortRef.current?.abort();
+    videoAnalysisAbortRef.current = null;
+    analyzedVideoRef.current = null;
+    setVideoAnalysis((prev) => {
+      if (prev) URL.revokeObjectURL(prev.url);
+      return null;
+    });
+  }, []);
+
+  // Stop scoring when the page goes away.
+  useEffect(() => () => videoAnalysisAbortRef.current?.abort(), []);
+
+  /** Score a picked video frame by frame with the live pipeline. */
+  const onVideoFileChange = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !scoreFrame) return;
+    videoAnalysisAbortRef.current?.abort();
+    const controller = new AbortController();
+    videoAnalysisAbortRef.current = controller;
+    const url = URL.createObjectURL(file);
+    onStart();
+    setVideoAnalysis({ url, progress: 0, timeline: null });
+    const estimator = createEstimator();
+    try {
+      const video = await openVideo(url);
+      if (video.duration > VIDEO_MAX_DURATION_S) notify(`Scoring the first ${VIDEO_MAX_DURATION_S}s only`);
+      await estimator.ready();
+      const samples = await scoreVideoFrames(video, estimator, scoreFrame, {
+        signal: controller.signal,
+        onProgress: (progress) => setVideoAnalysis((prev) => (prev?.url === url ? { ...prev, progress } : prev)),
+      });
+      if (controller.signal.aborted) return;
+      analyzedVideoRef.current = { video, samples };
+      setVideoAnalysis((prev) => (prev?.url === url ? { ...prev, timeline: samples.map(({ t, score }) => ({ t, score })) } : prev));
+    } catch (err) {
+      console.error(err);
+      if (controller.signal.aborted) return;
+      notify('Could not read that video');
+      closeVideoAnalysis();
+    } finally {
+      estimator.close();
+    }
+  }, [createEstimator, scoreFrame, onStart, notify, closeVideoAnalysis]);
+
+  /** Pull the top-scoring frames out of the analyzed video at full resolution and review them like a burst. */
+  const pickVideoFrames = useCallback(async () => {
+    const analyzed = analyzedVideoRef.current;
+    if (!analyzed) return;
+    setPickingVideoFrames(true);
+    try {
+      const frames: Omit<BurstFrame, 'rank'>[] = [];
+      for (const sample of pickTopFrames(analyzed.samples)) {
+        const canvas = await grabVideoFrame(analyzed.video, sample.t);
+        const subject = sample.landmarks?.length ? getPoseBounds(sample.landmarks) : null;
+        frames.push({
+          id: `video-${sample.t}`,
+          dataUrl: canvas.toDataURL('image/jpeg', 0.92),
+          landmarks: sample.landmarks,
+          score: sample.score,
+          sharpness: estimateSharpness(canvas, canvas.width, canvas.height),
+          lightingWarnings: analyzeExposure(canvas, canvas.width, canvas.height, subject)?.warnings ?? [],
+        });
+      }
+      if (frames.length) onFrames(rankBurstFrames(frames));
+      else notify('No matching frames in this video');
+    } catch (err) {
+      console.error(err);
+      notify('Could not extract frames');
+    } finally {
+      setPickingVideoFrames(false);
+    }
+  }, [onFrames, notify]);
+
+  return { videoAnalysis, pickingVideoFrames, onVideoFileChange, closeVideoAnalysis, pickVideoFrames };
+}
@@ -0,0 +1,95 @@
+/**
+ * Background effects for captured photos — portrait blur, a solid color or a custom image
+ * behind the subject, cut out with the pose model's segmentation mask.
+ */
+
+import type { SegmentationMask } from './pose-estimator';
+
+export type BackgroundEffect = 'none' | 'blur' | 'color' | 'image';
+
+export const BACKGROUND_EFFECTS: readonly BackgroundEffect[] = ['none', 'blur', 'color', 'image'];
+
+export const BACKGROUND_EFFECT_LABELS: Record<BackgroundEffect, string> = {
+  none: 'Original',
+  blur: 'Blur',
+  color: 'Color',
+  image: 'Image',
+};
+
+export type BackgroundOptions = {
+  effect: BackgroundEffect;
+  /** CSS color for 'color'. */
+  color: string;
+  /** Loaded replacement for 'image'; cover-fit behind the subject. */
+  image: HTMLImageElement | null;
+};
+
+/** Longest side the still is segmented at; the mask is scaled back up (and softened) when compositing. */
+export const SEGMENTATION_MAX_SIZE = 640;
+/** Blur strength as a fraction of the photo's longer side. */
+const BLUR_RADIUS = 0.012;
+/** Mask edge feather, as a fraction of the photo's longer side. */
+const MASK_FEATHER = 0.003;
+
+function createCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  return [canvas, ctx];
+}
+
+/** Downscaled copy of a still for segmentation (full-resolution sensor photos are far more than the model needs). */
+export function toSegmentationInput(photo: HTMLCanvasElement | HTMLImageElement): HTMLCanvasElement {
+  const width = photo instanceof HTMLImageElement ? photo.naturalWidth : photo.width;
+  const height = photo instanceof HTMLImageElement ? photo.naturalHeight : photo.height;
+  const scale = Math.min(1, SEGMENTATION_MAX_SIZE / Math.max(width, height));
+  const [canvas, ctx] = createCanvas(Math.round(width * scale), Math.round(height * scale));
+  ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Cheap blur: shrink by `radius`, then scale back up with smoothing (ctx.filter isn't available in Safari). */
+function drawBlurred(ctx: CanvasRenderingContext2D, source: CanvasImageSource, width: number, height: number, radius: number) {
+  const [small, smallCtx] = createCanvas(Math.max(1, Math.round(width / radius)), Math.max(1, Math.round(height / radius)));
+  smallCtx.imageSmoothingQuality = 'high';
+  smallCtx.drawImage(source, 0, 0, small.width, small.height);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(small, 0, 0, width, height);
+}
+
+/** Composite the subject over the chosen background. 'none' returns a plain copy of the photo. */
+export function applyBackground(
+  photo: HTMLCanvasElement | HTMLImageElement,
+  mask: SegmentationMask,
+  { effect, color, image }: BackgroundOptions
+): HTMLCanvasElement {
+  const width = photo instanceof HTMLImageElement ? photo.naturalWidth : photo.width;
+  const height = photo instanceof HTMLImageElement ? photo.naturalHeight : photo.height;
+  const [out, ctx] = createCanvas(width, height);
+  if (effect === 'none') {
+    ctx.drawImage(photo, 0, 0);
+    return out;
+  }
+
+  const longSide = Math.max(width, height);
+  if (effect === 'blur') {
+    drawBlurred(ctx, photo, width, height, Math.max(2, longSide * BLUR_RADIUS));
+  } else if (effect === 'image' && image) {
+    const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight);
+    const dw = image.naturalWidth * scale, dh = image.naturalHeight * scale;
+    ctx.drawImage(image, (width - dw) / 2, (height - dh) / 2, dw, dh);
+  } else {
+    ctx.fillStyle = color;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  // Subject layer: the upscaled (slightly feathered) mask, then the photo kept only where the mask is.
+  const [subject, subjectCtx] = createCanvas(width, height);
+  drawBlurred(subjectCtx, mask, width, height, Math.max(1, longSide * MASK_FEATHER));
+  subjectCtx.globalCompositeOperation = 'source-in';
+  subjectCtx.drawImage(photo, 0, 0, width, height);
+  ctx.drawImage(subject, 0, 0);
+  return out;
+}
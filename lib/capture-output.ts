@@ -0,0 +1,125 @@
+/**
+ * Capture output — what a still looks like once saved: cropped to the template's
+ * letterbox (as framed), the whole sensor image, or a fixed social ratio. Stills come
+ * from ImageCapture.takePhoto() at sensor resolution where available, else the video frame.
+ */
+
+import type { Landmark } from './pose-matching';
+
+export type CaptureOutputMode = 'framed' | 'full' | '4:5' | '9:16' | '1:1';
+
+export const CAPTURE_OUTPUT_MODES: readonly CaptureOutputMode[] = ['framed', 'full', '4:5', '9:16', '1:1'];
+
+export const CAPTURE_OUTPUT_LABELS: Record<CaptureOutputMode, string> = {
+  framed: 'As framed',
+  full: 'Full sensor',
+  '4:5': '4:5',
+  '9:16': '9:16',
+  '1:1': '1:1',
+};
+
+const FIXED_ASPECTS: Record<'4:5' | '9:16' | '1:1', number> = {
+  '4:5': 4 / 5,
+  '9:16': 9 / 16,
+  '1:1': 1,
+};
+
+type Crop = { sx: number; sy: number; sw: number; sh: number };
+
+/** Output width / height for a mode; null keeps the source's own aspect. */
+export function getOutputAspect(mode: CaptureOutputMode, templateAspect: number | null): number | null {
+  if (mode === 'full') return null;
+  if (mode === 'framed') return templateAspect;
+  return FIXED_ASPECTS[mode];
+}
+
+/** Largest centered rect of `aspect` inside width × height (the whole source when aspect is null). */
+function centeredCrop(width: number, height: number, aspect: number | null, within?: Crop): Crop {
+  const base = within ?? { sx: 0, sy: 0, sw: width, sh: height };
+  if (aspect == null) return base;
+  let sw = base.sw, sh = base.sh;
+  if (sw / sh > aspect) sw = sh * aspect;
+  else sh = sw / aspect;
+  return { sx: base.sx + (base.sw - sw) / 2, sy: base.sy + (base.sh - sh) / 2, sw, sh };
+}
+
+type Still = { source: CanvasImageSource; width: number; height: number; release: () => void };
+
+/** Sensor-resolution photo from the track, or null when ImageCapture is missing or fails. */
+async function takeSensorPhoto(track: MediaStreamTrack | null): Promise<Still | null> {
+  if (!track || track.readyState !== 'live' || typeof ImageCapture === 'undefined') return null;
+  try {
+    const blob = await new ImageCapture(track).takePhoto();
+    const bitmap = await createImageBitmap(blob);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+  } catch (err) {
+    console.error('takePhoto failed, using the video frame:', err);
+    return null;
+  }
+}
+
+export type CaptureOptions = {
+  mode: CaptureOutputMode;
+  /** Template width / height, for 'framed'. */
+  templateAspect: number | null;
+  /** Flip horizontally to match the mirrored selfie preview. */
+  mirrored: boolean;
+  /** Try ImageCapture.takePhoto() first (slower; skip for bursts). */
+  sensorPhoto?: boolean;
+};
+
+/**
+ * The part of the video frame a still shows, in video-normalized coordinates (unmirrored).
+ * Can reach outside 0–1 when a 'full' sensor photo sees more than the stream.
+ */
+export type CaptureRect = { x: number; y: number; w: number; h: number };
+
+export type CapturedStill = { canvas: HTMLCanvasElement; rect: CaptureRect };
+
+/** Live (video-normalized) landmarks in a still's own normalized coordinates, mirrored like the still. */
+export function toStillSpace(landmarks: Landmark[], rect: CaptureRect, mirrored: boolean): Landmark[] {
+  return landmarks.map((l) => {
+    const x = (l.x - rect.x) / rect.w;
+    return { ...l, x: mirrored ? 1 - x : x, y: (l.y - rect.y) / rect.h };
+  });
+}
+
+/**
+ * Render a still for `mode` onto a new canvas. Sensor photos can see more than the video
+ * stream (e.g. 4:3 sensor behind a 16:9 stream), so every mode except 'full' first crops
+ * to the stream's field of view, then to the output aspect.
+ */
+export async function captureStill(
+  video: HTMLVideoElement,
+  track: MediaStreamTrack | null,
+  { mode, templateAspect, mirrored, sensorPhoto = true }: CaptureOptions
+): Promise<CapturedStill | null> {
+  const videoW = video.videoWidth || 640;
+  const videoH = video.videoHeight || 480;
+  const still = (sensorPhoto ? await takeSensorPhoto(track) : null) ?? {
+    source: video, width: videoW, height: videoH, release: () => {},
+  };
+  try {
+    const fieldOfView = centeredCrop(still.width, still.height, videoW / videoH);
+    const crop = centeredCrop(still.width, still.height, getOutputAspect(mode, templateAspect), mode === 'full' ? undefined : fieldOfView);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(crop.sw);
+    canvas.height = Math.round(crop.sh);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    if (mirrored) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(still.source, crop.sx, crop.sy, crop.sw, crop.sh, 0, 0, canvas.width, canvas.height);
+    const rect = {
+      x: (crop.sx - fieldOfView.sx) / fieldOfView.sw,
+      y: (crop.sy - fieldOfView.sy) / fieldOfView.sh,
+      w: crop.sw / fieldOfView.sw,
+      h: crop.sh / fieldOfView.sh,
+    };
+    return { canvas, rect };
+  } finally {
+    still.release();
+  }
+}
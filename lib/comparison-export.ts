@@ -0,0 +1,202 @@
+/**
+ * Comparison export — the inspiration image and the captured photo in one shareable image,
+ * either side by side or as a before/after split, with optional skeletons and match score.
+ */
+
+import type { Landmark } from './pose-matching';
+
+export type ComparisonLayout = 'side-by-side' | 'before-after';
+
+export type ComparisonFormat = 'image/png' | 'image/jpeg';
+
+export const COMPARISON_LAYOUT_LABELS: Record<ComparisonLayout, string> = {
+  'side-by-side': 'Side by side',
+  'before-after': 'Before / after',
+};
+
+export type ComparisonInput = {
+  templateImageUrl: string;
+  /** Normalized to the template image. */
+  templateLandmarks: Landmark[] | null;
+  photoUrl: string;
+  /** Normalized to the photo. */
+  landmarks: Landmark[] | null;
+  score: number;
+};
+
+export type ComparisonOptions = {
+  layout: ComparisonLayout;
+  showSkeleton: boolean;
+  showScore: boolean;
+  /** Before/after only: fraction of the width (from the left) showing the template. */
+  split: number;
+  format: ComparisonFormat;
+};
+
+export const DEFAULT_COMPARISON_OPTIONS: ComparisonOptions = {
+  layout: 'side-by-side',
+  showSkeleton: true,
+  showScore: true,
+  split: 0.5,
+  format: 'image/jpeg',
+};
+
+/** Longest output side; keeps exports shareable and under canvas limits on phones. */
+const MAX_EXPORT_SIZE = 2048;
+const JPEG_QUALITY = 0.92;
+const BACKGROUND = '#1a1a1b';
+const TEMPLATE_SKELETON_COLOR = 'rgba(255,255,255,0.85)';
+const PHOTO_SKELETON_COLOR = 'rgba(52,211,153,0.9)';
+
+/** Body outline drawn for the skeleton overlay: arms, torso, legs. */
+const SKELETON_CONNECTIONS: readonly [number, number][] = [
+  [11, 12], [11, 13], [13, 15], [12, 14], [14, 16],
+  [11, 23], [12, 24], [23, 24], [23, 25], [25, 27], [24, 26], [26, 28],
+];
+
+/** Where an image lands on the output canvas. */
+type Placement = { dx: number; dy: number; dw: number; dh: number };
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Could not load ${src.slice(0, 64)}`));
+    img.src = src;
+  });
+}
+
+/** Cover-fit placement of a w × h image in a width × height frame. */
+function coverPlacement(w: number, h: number, width: number, height: number): Placement {
+  const scale = Math.max(width / w, height / h);
+  const dw = w * scale, dh = h * scale;
+  return { dx: (width - dw) / 2, dy: (height - dh) / 2, dw, dh };
+}
+
+function drawSkeleton(ctx: CanvasRenderingContext2D, landmarks: Landmark[], at: Placement, color: string, unit: number) {
+  const pt = (i: number) => {
+    const l = landmarks[i];
+    if (!l || (l.visibility ?? 1) < 0.5) return null;
+    return { x: at.dx + l.x * at.dw, y: at.dy + l.y * at.dh };
+  };
+  ctx.save();
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  ctx.lineWidth = Math.max(2, unit * 0.6);
+  ctx.lineCap = 'round';
+  ctx.shadowColor = 'rgba(0,0,0,0.5)';
+  ctx.shadowBlur = unit;
+  for (const [a, b] of SKELETON_CONNECTIONS) {
+    const pa = pt(a), pb = pt(b);
+    if (!pa || !pb) continue;
+    ctx.beginPath(); ctx.moveTo(pa.x, pa.y); ctx.lineTo(pb.x, pb.y); ctx.stroke();
+  }
+  for (const i of new Set(SKELETON_CONNECTIONS.flat())) {
+    const p = pt(i);
+    if (!p) continue;
+    ctx.beginPath(); ctx.arc(p.x, p.y, ctx.lineWidth * 1.2, 0, Math.PI * 2); ctx.fill();
+  }
+  ctx.restore();
+}
+
+/** Rounded pill with text; `align` anchors it at x. */
+function drawPill(ctx: CanvasRenderingContext2D, text: string, x: number, y: number, unit: number, align: 'left' | 'center' | 'right', fill: string) {
+  ctx.save();
+  ctx.font = `600 ${Math.round(unit * 2.4)}px system-ui, -apple-system, sans-serif`;
+  ctx.textBaseline = 'middle';
+  const padX = unit * 1.4;
+  const w = ctx.measureText(text).width + padX * 2;
+  const h = unit * 4;
+  const left = align === 'left' ? x : align === 'right' ? x - w : x - w / 2;
+  ctx.fillStyle = fill;
+  ctx.beginPath();
+  ctx.roundRect(left, y, w, h, h / 2);
+  ctx.fill();
+  ctx.fillStyle = 'white';
+  ctx.fillText(text, left + padX, y + h / 2);
+  ctx.restore();
+}
+
+async function renderComparisonCanvas(input: ComparisonInput, options: ComparisonOptions): Promise<HTMLCanvasElement> {
+  const [template, photo] = await Promise.all([loadImage(input.templateImageUrl), loadImage(input.photoUrl)]);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  const split = Math.min(1, Math.max(0, options.split));
+
+  let templateAt: Placement, photoAt: Placement;
+  if (options.layout === 'side-by-side') {
+    // Both panels at the photo's height (capped), each keeping its own aspect.
+    const height = Math.min(photo.naturalHeight, MAX_EXPORT_SIZE);
+    const templateW = (template.naturalWidth * height) / template.naturalHeight;
+    const photoW = (photo.naturalWidth * height) / photo.naturalHeight;
+    const gap = Math.round(height * 0.01);
+    const scale = Math.min(1, MAX_EXPORT_SIZE / (templateW + gap + photoW));
+    canvas.width = Math.round((templateW + gap + photoW) * scale);
+    canvas.height = Math.round(height * scale);
+    templateAt = { dx: 0, dy: 0, dw: templateW * scale, dh: canvas.height };
+    photoAt = { dx: (templateW + gap) * scale, dy: 0, dw: photoW * scale, dh: canvas.height };
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(template, templateAt.dx, templateAt.dy, templateAt.dw, templateAt.dh);
+    ctx.drawImage(photo, photoAt.dx, photoAt.dy, photoAt.dw, photoAt.dh);
+  } else {
+    // The photo's frame; the template is cover-fit behind it and revealed left of the split.
+    const scale = Math.min(1, MAX_EXPORT_SIZE / Math.max(photo.naturalWidth, photo.naturalHeight));
+    canvas.width = Math.round(photo.naturalWidth * scale);
+    canvas.height = Math.round(photo.naturalHeight * scale);
+    templateAt = coverPlacement(template.naturalWidth, template.naturalHeight, canvas.width, canvas.height);
+    photoAt = { dx: 0, dy: 0, dw: canvas.width, dh: canvas.height };
+    ctx.drawImage(photo, 0, 0, canvas.width, canvas.height);
+    const splitX = Math.round(canvas.width * split);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, splitX, canvas.height);
+    ctx.clip();
+    ctx.drawImage(template, templateAt.dx, templateAt.dy, templateAt.dw, templateAt.dh);
+    ctx.restore();
+    ctx.fillStyle = 'white';
+    ctx.fillRect(splitX - 1, 0, 2, canvas.height);
+  }
+
+  const unit = Math.max(6, Math.min(canvas.width, canvas.height) / 100);
+  if (options.showSkeleton) {
+    if (options.layout === 'before-after') {
+      // Each skeleton stays on its own side of the split.
+      const splitX = Math.round(canvas.width * split);
+      ctx.save();
+      ctx.beginPath(); ctx.rect(0, 0, splitX, canvas.height); ctx.clip();
+      if (input.templateLandmarks) drawSkeleton(ctx, input.templateLandmarks, templateAt, TEMPLATE_SKELETON_COLOR, unit);
+      ctx.restore();
+      ctx.save();
+      ctx.beginPath(); ctx.rect(splitX, 0, canvas.width - splitX, canvas.height); ctx.clip();
+      if (input.landmarks) drawSkeleton(ctx, input.landmarks, photoAt, PHOTO_SKELETON_COLOR, unit);
+      ctx.restore();
+    } else {
+      if (input.templateLandmarks) drawSkeleton(ctx, input.templateLandmarks, templateAt, TEMPLATE_SKELETON_COLOR, unit);
+      if (input.landmarks) drawSkeleton(ctx, input.landmarks, photoAt, PHOTO_SKELETON_COLOR, unit);
+    }
+  }
+
+  const margin = unit * 2;
+  const photoRight = options.layout === 'side-by-side' ? photoAt.dx + photoAt.dw : canvas.width;
+  drawPill(ctx, 'Inspo', margin, margin, unit, 'left', 'rgba(0,0,0,0.55)');
+  drawPill(ctx, 'Me', photoRight - margin, margin, unit, 'right', 'rgba(0,0,0,0.55)');
+  if (options.showScore) {
+    drawPill(ctx, `${Math.round(input.score)}% match`, canvas.width / 2, canvas.height - margin - unit * 4, unit, 'center', 'rgba(16,185,129,0.9)');
+  }
+  return canvas;
+}
+
+/** Render the comparison as a PNG or JPEG blob, ready for shareOrDownload. */
+export async function renderComparison(input: ComparisonInput, options: ComparisonOptions): Promise<Blob> {
+  const canvas = await renderComparisonCanvas(input, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Export failed'))),
+      options.format,
+      options.format === 'image/jpeg' ? JPEG_QUALITY : undefined
+    );
+  });
+}
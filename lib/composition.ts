@@ -0,0 +1,99 @@
+/**
+ * Composition helpers — subject framing box from the template, horizon roll from
+ * DeviceOrientation, and framing/tilt prompts. Boxes are in template-normalized
+ * letterbox coordinates (0–1), the same space the ghost is drawn in.
+ */
+
+import { isVisible, toLetterboxSpace, type ImageSize, type Landmark } from './pose-matching';
+
+export type Bounds = { minX: number; minY: number; maxX: number; maxY: number };
+
+/** Landmarks that outline the subject: nose, ears, shoulders, wrists, hips, knees, ankles. */
+const OUTLINE_INDICES = [0, 7, 8, 11, 12, 15, 16, 23, 24, 25, 26, 27, 28] as const;
+const MIN_OUTLINE_POINTS = 4;
+/** Landmarks hug the joints; pad the box so heads and feet fit inside it. */
+const SUBJECT_BOX_PADDING = 0.06;
+
+/** Roll (degrees) beyond which the horizon counts as tilted. */
+export const TILT_WARN_DEGREES = 4;
+/** How far (fraction of the frame) the subject's center may drift from the box center. */
+const BOX_CENTER_SLACK = 0.1;
+/** Subject height relative to the box before asking to step back / come closer. */
+const BOX_HEIGHT_TOO_BIG = 1.2;
+const BOX_HEIGHT_TOO_SMALL = 0.75;
+
+function getBounds(points: { x: number; y: number }[]): Bounds | null {
+  if (points.length < MIN_OUTLINE_POINTS) return null;
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+function outlinePoints(landmarks: Landmark[]): Landmark[] {
+  return OUTLINE_INDICES.map((i) => landmarks[i]).filter(isVisible);
+}
+
+/** Padded bounding box of the template subject, clamped to the image. */
+export function getSubjectBox(template: Landmark[]): Bounds | null {
+  const bounds = getBounds(outlinePoints(template));
+  if (!bounds) return null;
+  return {
+    minX: Math.max(0, bounds.minX - SUBJECT_BOX_PADDING),
+    minY: Math.max(0, bounds.minY - SUBJECT_BOX_PADDING),
+    maxX: Math.min(1, bounds.maxX + SUBJECT_BOX_PADDING),
+    maxY: Math.min(1, bounds.maxY + SUBJECT_BOX_PADDING),
+  };
+}
+
+/** Unpadded bounding box of a pose in its own normalized coordinates. */
+export function getPoseBounds(landmarks: Landmark[]): Bounds | null {
+  return getBounds(outlinePoints(landmarks));
+}
+
+/** Bounding box of a live (camera-normalized) pose mapped into the template letterbox. Not padded. */
+export function getLiveBounds(live: Landmark[], templateImageSize: ImageSize | null): Bounds | null {
+  return getBounds(outlinePoints(live).map((l) => toLetterboxSpace(l, templateImageSize)));
+}
+
+/**
+ * Framing hint from the live subject against the template's subject box. Live bounds are
+ * unpadded, so the box is shrunk by the padding before comparing sizes.
+ */
+export function getFramingPrompt(box: Bounds, live: Bounds): string | null {
+  if (live.minY < 0) return 'Head is cut off — tilt up or back up';
+  if (live.maxY > 1 && box.maxY <= 1 - SUBJECT_BOX_PADDING) return 'Feet are cut off — back up';
+  const boxCenterX = (box.minX + box.maxX) / 2;
+  const liveCenterX = (live.minX + live.maxX) / 2;
+  if (liveCenterX < boxCenterX - BOX_CENTER_SLACK) return 'Move left';
+  if (liveCenterX > boxCenterX + BOX_CENTER_SLACK) return 'Move right';
+  const boxHeight = box.maxY - box.minY - 2 * SUBJECT_BOX_PADDING;
+  const liveHeight = live.maxY - live.minY;
+  if (boxHeight > 0 && liveHeight > boxHeight * BOX_HEIGHT_TOO_BIG) return 'Back up';
+  if (boxHeight > 0 && liveHeight < boxHeight * BOX_HEIGHT_TOO_SMALL) return 'Come closer';
+  return null;
+}
+
+/**
+ * Screen roll in degrees (0 = level, positive = rotated clockwise) from DeviceOrientation
+ * beta/gamma, corrected for the current screen orientation. Null when the phone lies
+ * flat, where roll is meaningless.
+ */
+export function getScreenRoll(beta: number | null, gamma: number | null, screenAngle = 0): number | null {
+  if (beta == null || gamma == null) return null;
+  const b = (beta * Math.PI) / 180;
+  const g = (gamma * Math.PI) / 180;
+  // World "up" in device coordinates (x right, y toward the top edge), projected onto the screen.
+  const upX = -Math.cos(b) * Math.sin(g);
+  const upY = Math.sin(b);
+  if (Math.hypot(upX, upY) < 0.3) return null;
+  const roll = (-Math.atan2(upX, upY) * 180) / Math.PI + screenAngle;
+  return ((roll + 540) % 360) - 180;
+}
+
+export function getTiltPrompt(rollDegrees: number | null): string | null {
+  if (rollDegrees == null || Math.abs(rollDegrees) <= TILT_WARN_DEGREES) return null;
+  return 'Level the phone';
+}
@@ -0,0 +1,72 @@
+/**
+ * Head orientation from MediaPipe's face landmarks (nose and ears). These are 2D estimates:
+ * good for comparing a live head against a template head, not absolute angles
+ * (a level head already reads as a little chin-down).
+ */
+
+import { isVisible, type Landmark } from './pose-matching';
+
+export type HeadPose = {
+  /** Degrees; > 0 = face turned toward the subject's left. */
+  yaw: number;
+  /** Degrees; > 0 = chin up. */
+  pitch: number;
+  /** Degrees; > 0 = head tilted clockwise in the image (toward the subject's left shoulder when facing the camera). */
+  roll: number;
+};
+
+export type HeadAxis = keyof HeadPose;
+
+export const HEAD_AXES: readonly HeadAxis[] = ['yaw', 'pitch', 'roll'];
+
+export const NOSE = 0;
+export const LEFT_EAR = 7;
+export const RIGHT_EAR = 8;
+
+type Point = { x: number; y: number };
+
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+/**
+ * Head pose in aspect-corrected space; `map` puts landmarks into a shared frame first
+ * (e.g. live → template letterbox). Null when the nose or either ear is hidden.
+ *
+ * Roll is the ear line's angle. Yaw and pitch come from where the nose sits relative to
+ * the ear midpoint — along the ear line for yaw, across it for pitch — over half the ear
+ * distance, which is roughly tan(angle) for a nose that sticks out half a head-width.
+ */
+export function estimateHeadPose(
+  pose: Landmark[],
+  aspect: number,
+  map: (l: Landmark) => Point = (l) => l
+): HeadPose | null {
+  const nose = pose[NOSE], leftEar = pose[LEFT_EAR], rightEar = pose[RIGHT_EAR];
+  if (!isVisible(nose) || !isVisible(leftEar) || !isVisible(rightEar)) return null;
+  const project = (l: Landmark) => {
+    const p = map(l);
+    return { x: p.x * aspect, y: p.y };
+  };
+  const n = project(nose), l = project(leftEar), r = project(rightEar);
+  const ax = l.x - r.x, ay = l.y - r.y;
+  const width = Math.hypot(ax, ay);
+  if (width === 0) return null;
+  // Unit vector toward the left ear, and the head's "down" (ear line rotated a quarter turn clockwise).
+  const ux = ax / width, uy = ay / width;
+  const dx = n.x - (l.x + r.x) / 2, dy = n.y - (l.y + r.y) / 2;
+  const along = dx * ux + dy * uy;
+  const down = dx * -uy + dy * ux;
+  return {
+    yaw: toDegrees(Math.atan((2 * along) / width)),
+    pitch: toDegrees(Math.atan((-2 * down) / width)),
+    roll: toDegrees(Math.atan2(ay, ax)),
+  };
+}
+
+/** Live − template per axis, in degrees; roll wraps to ±180. */
+export function getHeadGaps(template: HeadPose, live: HeadPose): HeadPose {
+  return {
+    yaw: live.yaw - template.yaw,
+    pitch: live.pitch - template.pitch,
+    roll: ((live.roll - template.roll + 540) % 360) - 180,
+  };
+}
@@ -0,0 +1,150 @@
+/**
+ * Image analysis on downscaled canvas frames (on-device, no ML).
+ */
+
+/** Width frames are downscaled to before analysis; enough detail, cheap to scan. */
+const ANALYSIS_WIDTH = 160;
+
+/** Grayscale luma (Rec. 601) of a source downscaled to ANALYSIS_WIDTH. */
+function getLuma(source: CanvasImageSource, width: number, height: number): { luma: Float32Array; w: number; h: number } | null {
+  const scale = Math.min(1, ANALYSIS_WIDTH / width);
+  const w = Math.max(1, Math.round(width * scale));
+  const h = Math.max(1, Math.round(height * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, w, h);
+  const { data } = ctx.getImageData(0, 0, w, h);
+  const luma = new Float32Array(w * h);
+  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
+    luma[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return { luma, w, h };
+}
+
+/**
+ * Sharpness estimate: variance of the Laplacian. Higher is sharper; motion blur
+ * and missed focus flatten edges and drive it down. Only meaningful relative to
+ * other frames of the same scene.
+ */
+export function estimateSharpness(source: CanvasImageSource, width: number, height: number): number {
+  const gray = getLuma(source, width, height);
+  if (!gray) return 0;
+  const { luma, w, h } = gray;
+  let sum = 0, sumSq = 0, n = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const lap = luma[i - w] + luma[i + w] + luma[i - 1] + luma[i + 1] - 4 * luma[i];
+      sum += lap;
+      sumSq += lap * lap;
+      n++;
+    }
+  }
+  if (!n) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+// ---- Exposure / lighting ----
+
+export type LightingWarning = 'backlit' | 'underexposed' | 'overexposed';
+
+export type ExposureAnalysis = {
+  /** Mean luma of the whole frame, 0–255. */
+  mean: number;
+  /** Share of pixels crushed to black / blown to white. */
+  shadowClip: number;
+  highlightClip: number;
+  /** Mean luma inside / outside the subject region (null without one). */
+  subjectMean: number | null;
+  backgroundMean: number | null;
+  warnings: LightingWarning[];
+};
+
+/** Normalized (0–1) region of the frame, e.g. the live pose bounds. */
+export type Region = { minX: number; minY: number; maxX: number; maxY: number };
+
+export const LIGHTING_WARNING_LABELS: Record<LightingWarning, string> = {
+  backlit: 'Backlit',
+  underexposed: 'Underexposed',
+  overexposed: 'Blown highlights',
+};
+
+const SHADOW_LUMA = 16;
+const HIGHLIGHT_LUMA = 245;
+const DARK_MEAN = 60;
+const DARK_SUBJECT_MEAN = 55;
+const HIGHLIGHT_CLIP_LIMIT = 0.12;
+/** Background this much brighter than the subject (and itself bright) reads as backlight. */
+const BACKLIGHT_CONTRAST = 50;
+const BACKLIGHT_MIN_BACKGROUND = 120;
+/** Without a subject, the center of the frame stands in for it. */
+const DEFAULT_SUBJECT: Region = { minX: 0.3, minY: 0.2, maxX: 0.7, maxY: 0.9 };
+
+/**
+ * Luminance histogram stats for a frame: under/overexposure from the mean and clipped
+ * tails, backlight from subject-vs-background contrast. `subject` is in the source's
+ * normalized coordinates.
+ */
+export function analyzeExposure(
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  subject: Region | null = null
+): ExposureAnalysis | null {
+  const gray = getLuma(source, width, height);
+  if (!gray) return null;
+  const { luma, w, h } = gray;
+  const region = subject ?? DEFAULT_SUBJECT;
+  const x0 = Math.floor(Math.max(0, region.minX) * w), x1 = Math.ceil(Math.min(1, region.maxX) * w);
+  const y0 = Math.floor(Math.max(0, region.minY) * h), y1 = Math.ceil(Math.min(1, region.maxY) * h);
+
+  let sum = 0, shadows = 0, highlights = 0;
+  let subjectSum = 0, subjectN = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const v = luma[y * w + x];
+      sum += v;
+      if (v < SHADOW_LUMA) shadows++;
+      else if (v > HIGHLIGHT_LUMA) highlights++;
+      if (x >= x0 && x < x1 && y >= y0 && y < y1) {
+        subjectSum += v;
+        subjectN++;
+      }
+    }
+  }
+  const n = w * h;
+  const backgroundN = n - subjectN;
+  const subjectMean = subjectN ? subjectSum / subjectN : null;
+  const backgroundMean = backgroundN ? (sum - subjectSum) / backgroundN : null;
+  const analysis: ExposureAnalysis = {
+    mean: sum / n,
+    shadowClip: shadows / n,
+    highlightClip: highlights / n,
+    subjectMean,
+    backgroundMean,
+    warnings: [],
+  };
+
+  if (
+    subjectMean != null && backgroundMean != null &&
+    backgroundMean - subjectMean > BACKLIGHT_CONTRAST && backgroundMean > BACKLIGHT_MIN_BACKGROUND
+  ) {
+    analysis.warnings.push('backlit');
+  } else if (analysis.mean < DARK_MEAN || (subjectMean != null && subjectMean < DARK_SUBJECT_MEAN)) {
+    analysis.warnings.push('underexposed');
+  }
+  if (analysis.highlightClip > HIGHLIGHT_CLIP_LIMIT) analysis.warnings.push('overexposed');
+  return analysis;
+}
+
+/** Prompt for the most important lighting problem. */
+export function getLightingPrompt(warnings: LightingWarning[]): string | null {
+  if (warnings.includes('backlit')) return 'Turn so the light is in front of you';
+  if (warnings.includes('underexposed')) return 'Too dark — find more light';
+  if (warnings.includes('overexposed')) return 'Too bright — step out of direct sun';
+  return null;
+}
@@ -0,0 +1,78 @@
+/**
+ * Landmark filtering — a One-Euro filter per landmark coordinate, run on live poses before
+ * they are drawn, scored or coached. At rest the cutoff stays low and jitter is smoothed
+ * away; as a joint speeds up the cutoff rises with it, so big movements don't lag.
+ * (Casiez et al., "1€ Filter", CHI 2012.)
+ */
+
+import type { Landmark, PoseLandmarks } from './pose-matching';
+
+export type OneEuroParams = {
+  /** Cutoff (Hz) at rest; lower = steadier but laggier when still. */
+  minCutoff: number;
+  /** How fast the cutoff rises with speed (per normalized unit/s); higher = less lag on fast moves. */
+  beta: number;
+  /** Cutoff (Hz) for the speed estimate itself. */
+  dCutoff: number;
+};
+
+/** Tuned for 0–1 normalized coordinates at 15–30 fps on top of MediaPipe's own smoothing. */
+export const DEFAULT_ONE_EURO_PARAMS: OneEuroParams = { minCutoff: 1.2, beta: 8, dCutoff: 1 };
+
+/** A gap longer than this (lost tracking, paused camera) starts the filter over instead of easing across it. */
+const MAX_FRAME_GAP_MS = 500;
+
+export interface LandmarkFilter {
+  /** Filtered copy of `landmarks` at `timestampMs`; visibility passes through. Null resets the filter. */
+  filter(landmarks: PoseLandmarks, timestampMs: number): PoseLandmarks;
+  reset(): void;
+}
+
+type AxisState = { value: number; speed: number };
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+/** One filter for a whole pose: x, y and z of every landmark are filtered independently. */
+export function createLandmarkFilter(params: OneEuroParams = DEFAULT_ONE_EURO_PARAMS): LandmarkFilter {
+  let states: AxisState[][] | null = null;
+  let lastTimestamp = 0;
+
+  const step = (state: AxisState, raw: number, dt: number): number => {
+    const speed = (raw - state.value) / dt;
+    state.speed += smoothingFactor(params.dCutoff, dt) * (speed - state.speed);
+    const cutoff = params.minCutoff + params.beta * Math.abs(state.speed);
+    state.value += smoothingFactor(cutoff, dt) * (raw - state.value);
+    return state.value;
+  };
+
+  return {
+    filter(landmarks, timestampMs) {
+      if (!landmarks) {
+        states = null;
+        return null;
+      }
+      const dt = (timestampMs - lastTimestamp) / 1000;
+      if (!states || states.length !== landmarks.length || dt <= 0 || dt * 1000 > MAX_FRAME_GAP_MS) {
+        states = landmarks.map((l) => [l.x, l.y, l.z ?? 0].map((value) => ({ value, speed: 0 })));
+        lastTimestamp = timestampMs;
+        return landmarks;
+      }
+      lastTimestamp = timestampMs;
+      return landmarks.map((l, i): Landmark => {
+        const [sx, sy, sz] = states![i];
+        return {
+          ...l,
+          x: step(sx, l.x, dt),
+          y: step(sy, l.y, dt),
+          ...(l.z == null ? {} : { z: step(sz, l.z, dt) }),
+        };
+      });
+    },
+    reset() {
+      states = null;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Match profiles — what "matched" means for a template: the success threshold, how long
+ * the match must hold, and how much error each landmark may have. Comes from the
+ * template's difficulty (or its own override), then the user's relaxed/normal/strict level.
+ */
+
+import type { LandmarkTolerance } from './pose-matching';
+import type { PoseDifficulty, PoseTemplate } from './poses';
+
+export type MatchProfile = {
+  /** Score (0–100) that starts a match. */
+  threshold: number;
+  /** A match in progress holds until the score drops this far below threshold (hysteresis). */
+  exitMargin: number;
+  /** How long the score must stay at or above threshold before success shows. */
+  holdMs: number;
+  /** Global error multiplier passed to the scorer; >1 is more forgiving. */
+  tolerance: number;
+  landmarkTolerance?: LandmarkTolerance;
+  /** Weight of head orientation against one limb; raise it for poses that are all about where the head points. */
+  headWeight?: number;
+};
+
+/** The user's matching level on the camera step; stored with each gallery capture. */
+export type MatchLevel = 'relaxed' | 'normal' | 'strict';
+
+export const MATCH_LEVELS: readonly MatchLevel[] = ['relaxed', 'normal', 'strict'];
+
+export const MATCH_LEVEL_LABELS: Record<MatchLevel, string> = {
+  relaxed: 'Relaxed',
+  normal: 'Normal',
+  strict: 'Strict',
+};
+
+/**
+ * Hard poses (twists, crossed limbs) are harder to hit and noisier to detect, so they get
+ * more tolerance and a lower bar; easy poses ask for a closer match. Medium is the original tuning.
+ */
+export const DIFFICULTY_PROFILES: Record<PoseDifficulty, MatchProfile> = {
+  easy: { threshold: 80, exitMargin: 5, holdMs: 250, tolerance: 0.9 },
+  medium: { threshold: 78, exitMargin: 6, holdMs: 250, tolerance: 1 },
+  hard: { threshold: 74, exitMargin: 8, holdMs: 350, tolerance: 1.15 },
+};
+
+const LEVEL_ADJUSTMENTS: Record<MatchLevel, { thresholdDelta: number; holdScale: number; toleranceScale: number }> = {
+  relaxed: { thresholdDelta: -8, holdScale: 0.5, toleranceScale: 1.25 },
+  normal: { thresholdDelta: 0, holdScale: 1, toleranceScale: 1 },
+  strict: { thresholdDelta: 6, holdScale: 2, toleranceScale: 0.85 },
+};
+
+const MAX_THRESHOLD = 95;
+
+/**
+ * Profile for a template at a level. Templates without a difficulty (uploads, saved poses)
+ * use medium; `template.match` overrides individual fields before the level applies.
+ */
+export function resolveMatchProfile(
+  template: Pick<PoseTemplate, 'difficulty' | 'match'> | null | undefined,
+  level: MatchLevel
+): MatchProfile {
+  const base = { ...DIFFICULTY_PROFILES[template?.difficulty ?? 'medium'], ...template?.match };
+  const adjust = LEVEL_ADJUSTMENTS[level];
+  return {
+    threshold: Math.min(MAX_THRESHOLD, base.threshold + adjust.thresholdDelta),
+    exitMargin: base.exitMargin,
+    holdMs: Math.round(base.holdMs * adjust.holdScale),
+    tolerance: base.tolerance * adjust.toleranceScale,
+    landmarkTolerance: base.landmarkTolerance,
+    headWeight: base.headWeight,
+  };
+}
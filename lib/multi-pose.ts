@@ -0,0 +1,241 @@
+/**
+ * Multi-person poses — group and couple templates hold one skeleton per person ("slot").
+ * The pose model finds a single body per frame, so people are found by repeated passes:
+ * stills mask out each person once found and look again; the live camera runs one estimator
+ * per vertical strip of the frame, one strip per slot. Detected people are then assigned
+ * to slots by where they stand.
+ */
+
+import type { PoseEstimator, PoseInput } from './pose-estimator';
+import {
+  CAM_H,
+  fromLetterboxSpace,
+  isVisible,
+  mirrorLandmarks,
+  toLetterboxSpace,
+  type ImageSize,
+  type Landmark,
+  type PoseLandmarks,
+} from './pose-matching';
+
+export const MAX_GROUP_SIZE = 4;
+/** People shorter than this share of the tallest one in a template are bystanders, not slots. */
+const MIN_PERSON_SCALE = 0.4;
+/** Masked area around a found person, padded by this share of their size so stray limbs go too. */
+const MASK_PADDING = 0.15;
+/** Each live strip reaches this far (fraction of the frame width) into its neighbours. */
+const STRIP_OVERLAP = 0.08;
+/** Two detections whose torso centers are closer than this (frame widths) are the same person. */
+const SAME_PERSON_DISTANCE = 0.06;
+
+/** Torso landmarks: shoulders and hips. */
+const TORSO = [11, 12, 23, 24] as const;
+
+type Point = { x: number; y: number };
+
+/** Horizontal band of the camera frame, normalized 0–1. */
+export type FrameStrip = { x0: number; x1: number };
+
+/** Mean of the visible torso landmarks (falls back to every visible landmark). */
+function getCenter(pose: Landmark[]): Point | null {
+  const torso = TORSO.map((i) => pose[i]).filter(isVisible);
+  const points = torso.length ? torso : pose.filter(isVisible);
+  if (!points.length) return null;
+  return {
+    x: points.reduce((s, p) => s + p.x, 0) / points.length,
+    y: points.reduce((s, p) => s + p.y, 0) / points.length,
+  };
+}
+
+function getExtent(pose: Landmark[]): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  const points = pose.filter(isVisible);
+  if (!points.length) return null;
+  return {
+    minX: Math.min(...points.map((p) => p.x)),
+    minY: Math.min(...points.map((p) => p.y)),
+    maxX: Math.max(...points.map((p) => p.x)),
+    maxY: Math.max(...points.map((p) => p.y)),
+  };
+}
+
+/** Slot order is left to right in the image. */
+function sortLeftToRight(people: Landmark[][]): Landmark[][] {
+  return people
+    .map((pose) => ({ pose, x: getCenter(pose)?.x ?? 0.5 }))
+    .sort((a, b) => a.x - b.x)
+    .map(({ pose }) => pose);
+}
+
+/**
+ * Everyone in a still, left to right: estimate, paint over the person just found, repeat.
+ * Bystanders much smaller than the tallest person are dropped. Works on a copy of `image`.
+ */
+export async function detectPeople(
+  estimator: PoseEstimator,
+  image: HTMLCanvasElement,
+  maxPeople = MAX_GROUP_SIZE
+): Promise<Landmark[][]> {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context missing');
+  ctx.drawImage(image, 0, 0);
+  ctx.fillStyle = '#808080';
+
+  const people: Landmark[][] = [];
+  while (people.length < maxPeople) {
+    const pose = await estimator.estimate(canvas);
+    const extent = pose && getExtent(pose);
+    if (!pose || !extent) break;
+    // The same person again means the mask missed them; stop rather than loop.
+    if (people.some((p) => isSamePerson(p, pose))) break;
+    people.push(pose);
+    const padX = (extent.maxX - extent.minX) * MASK_PADDING;
+    const padY = (extent.maxY - extent.minY) * MASK_PADDING;
+    ctx.fillRect(
+      (extent.minX - padX) * canvas.width,
+      (extent.minY - padY) * canvas.height,
+      (extent.maxX - extent.minX + 2 * padX) * canvas.width,
+      (extent.maxY - extent.minY + 2 * padY) * canvas.height
+    );
+  }
+
+  const heights = people.map((p) => {
+    const e = getExtent(p);
+    return e ? e.maxY - e.minY : 0;
+  });
+  const tallest = Math.max(0, ...heights);
+  return sortLeftToRight(people.filter((_, i) => heights[i] >= tallest * MIN_PERSON_SCALE));
+}
+
+/**
+ * One strip of the camera frame per slot, ordered left to right in the camera's own
+ * (unmirrored) coordinates, split halfway between neighbouring slots' template positions.
+ */
+export function getFrameStrips(slots: Landmark[][], templateImageSize: ImageSize | null, mirrored: boolean): FrameStrip[] {
+  const centers = slots
+    .map((slot) => {
+      const center = getCenter(slot);
+      const x = center ? fromLetterboxSpace(center, templateImageSize).x : 0.5;
+      return mirrored ? 1 - x : x;
+    })
+    .sort((a, b) => a - b);
+  return centers.map((_, i) => {
+    const left = i === 0 ? 0 : (centers[i - 1] + centers[i]) / 2;
+    const right = i === centers.length - 1 ? 1 : (centers[i] + centers[i + 1]) / 2;
+    return { x0: Math.max(0, left - STRIP_OVERLAP), x1: Math.min(1, right + STRIP_OVERLAP) };
+  });
+}
+
+export interface GroupPoseEstimator {
+  /** Any strip's estimate is still in flight; live loops drop the frame. */
+  readonly busy: boolean;
+  /** One pose (or null) per strip, in camera-normalized coordinates. */
+  estimate(image: HTMLVideoElement): Promise<PoseLandmarks[]>;
+  close(): void;
+}
+
+/**
+ * Live multi-person path: each strip is cropped out of the frame and sent to its own
+ * estimator, so every model instance keeps tracking the one person in its strip.
+ */
+export function createGroupEstimator(strips: FrameStrip[], create: () => PoseEstimator): GroupPoseEstimator {
+  const lanes = strips.map((strip) => ({ strip, estimator: create(), canvas: document.createElement('canvas') }));
+
+  const crop = (video: HTMLVideoElement, { strip, canvas }: (typeof lanes)[number]): PoseInput => {
+    const sx = strip.x0 * video.videoWidth;
+    const sw = (strip.x1 - strip.x0) * video.videoWidth;
+    const scale = Math.min(1, CAM_H / video.videoHeight);
+    canvas.width = Math.max(1, Math.round(sw * scale));
+    canvas.height = Math.max(1, Math.round(video.videoHeight * scale));
+    canvas.getContext('2d')?.drawImage(video, sx, 0, sw, video.videoHeight, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+
+  return {
+    get busy() {
+      return lanes.some((lane) => lane.estimator.busy);
+    },
+    estimate(video) {
+      return Promise.all(
+        lanes.map(async (lane) => {
+          const pose = await lane.estimator.estimate(crop(video, lane));
+          if (!pose) return null;
+          const width = lane.strip.x1 - lane.strip.x0;
+          // z is in units of the crop's width, like x.
+          return pose.map((l): Landmark => ({ ...l, x: lane.strip.x0 + l.x * width, ...(l.z == null ? {} : { z: l.z * width }) }));
+        })
+      );
+    },
+    close() {
+      for (const lane of lanes) lane.estimator.close();
+    },
+  };
+}
+
+function isSamePerson(a: Landmark[], b: Landmark[]): boolean {
+  const ca = getCenter(a), cb = getCenter(b);
+  return !!ca && !!cb && Math.hypot(ca.x - cb.x, ca.y - cb.y) < SAME_PERSON_DISTANCE;
+}
+
+/** Drop repeats where a person standing in the overlap was found by two strips (keeps the clearer one). */
+export function dedupePeople(people: PoseLandmarks[]): Landmark[][] {
+  const meanVisibility = (pose: Landmark[]) => pose.reduce((s, l) => s + (l.visibility ?? 1), 0) / pose.length;
+  const kept: Landmark[][] = [];
+  for (const pose of people) {
+    if (!pose?.length) continue;
+    const twin = kept.findIndex((k) => isSamePerson(k, pose));
+    if (twin < 0) kept.push(pose);
+    else if (meanVisibility(pose) > meanVisibility(kept[twin])) kept[twin] = pose;
+  }
+  return kept;
+}
+
+/**
+ * Person (or null) for each slot, chosen to minimize the total distance between each
+ * person's torso and their slot's torso in the template letterbox. Groups are small
+ * (MAX_GROUP_SIZE), so every assignment is tried.
+ */
+export function assignPeopleToSlots(
+  slots: Landmark[][],
+  people: Landmark[][],
+  templateImageSize: ImageSize | null,
+  mirrored: boolean
+): PoseLandmarks[] {
+  const slotCenters = slots.map(getCenter);
+  const personCenters = people.map((pose) => {
+    const center = getCenter(mirrored ? mirrorLandmarks(pose) : pose);
+    return center ? toLetterboxSpace(center, templateImageSize) : null;
+  });
+  const cost = (slot: number, person: number) => {
+    const s = slotCenters[slot], p = personCenters[person];
+    return s && p ? Math.hypot(s.x - p.x, s.y - p.y) : 1;
+  };
+
+  let best: { cost: number; people: (number | null)[] } = { cost: Infinity, people: [] };
+  const assign = (slot: number, used: Set<number>, chosen: (number | null)[], total: number) => {
+    if (total >= best.cost) return;
+    if (slot === slots.length) {
+      best = { cost: total, people: [...chosen] };
+      return;
+    }
+    for (let person = 0; person < people.length; person++) {
+      if (used.has(person)) continue;
+      used.add(person);
+      assign(slot + 1, used, [...chosen, person], total + cost(slot, person));
+      used.delete(person);
+    }
+    // Leave the slot empty only when there aren't enough people for every slot.
+    if (slots.length - slot > people.length - used.size) assign(slot + 1, used, [...chosen, null], total + 1);
+  };
+  assign(0, new Set(), [], 0);
+  return best.people.map((person) => (person == null ? null : people[person]));
+}
+
+/** How guidance names a slot: "person on the left", "second person from the left", … */
+export function getSlotLabel(index: number, count: number): string {
+  if (count === 2) return index === 0 ? 'person on the left' : 'person on the right';
+  if (count === 3) return ['person on the left', 'person in the middle', 'person on the right'][index];
+  return `${['first', 'second', 'third', 'fourth'][index] ?? `#${index + 1}`} person from the left`;
+}
@@ -0,0 +1,135 @@
+/**
+ * Pose coaching — turns the largest per-joint or head-angle gap between template and
+ * live pose into a spoken/on-screen correction ("Raise your left arm", "Tilt your chin up").
+ * Left/right are the subject's own sides (MediaPipe convention). In a mirrored
+ * (selfie) preview the subject copies the ghost like a mirror, so sides swap.
+ */
+
+import { estimateHeadPose, getHeadGaps, HEAD_AXES, type HeadAxis } from './head-pose';
+import {
+  computeLimbAngleGaps,
+  getHeadVisibilityWeight,
+  getLimbWeight,
+  getTemplateAspect,
+  isVisible,
+  mirrorLandmarks,
+  toLetterboxSpace,
+  type BodyRegion,
+  type ImageSize,
+  type Landmark,
+  type LimbId,
+  type PoseLandmarks,
+} from './pose-matching';
+
+/** Joint gap (radians) below which a limb is left alone. */
+const MIN_CORRECTION_GAP = (20 * Math.PI) / 180;
+/** Relative change in shoulder width / torso length that reads as a body turn. */
+const MIN_TURN_RATIO = 0.35;
+/** Head-angle gap (degrees) below which the head is left alone. */
+const MIN_HEAD_CORRECTION_DEGREES = 15;
+
+/** [prompt when the live joint is too open, prompt when it is too closed]. */
+const LIMB_CORRECTIONS: Record<LimbId, readonly [string, string]> = {
+  leftUpperArm: ['Lower your left arm', 'Raise your left arm'],
+  rightUpperArm: ['Lower your right arm', 'Raise your right arm'],
+  leftForearm: ['Bend your left elbow', 'Straighten your left arm'],
+  rightForearm: ['Bend your right elbow', 'Straighten your right arm'],
+  leftThigh: ['Lift your left knee', 'Lower your left leg'],
+  rightThigh: ['Lift your right knee', 'Lower your right leg'],
+  leftShin: ['Bend your left knee', 'Straighten your left leg'],
+  rightShin: ['Bend your right knee', 'Straighten your right leg'],
+};
+
+/** [prompt when the live angle is too high, prompt when it is too low] (see HeadPose for signs). */
+const HEAD_CORRECTIONS: Record<HeadAxis, readonly [string, string]> = {
+  yaw: ['Turn your head to your right', 'Turn your head to your left'],
+  pitch: ['Lower your chin', 'Tilt your chin up'],
+  roll: ['Tilt your head toward your right shoulder', 'Tilt your head toward your left shoulder'],
+};
+
+/** Shoulder width over torso length; drops as the body turns side-on. */
+function shoulderTurnRatio(
+  pose: Landmark[],
+  aspect: number,
+  map: (l: Landmark) => { x: number; y: number }
+): number | null {
+  const [ls, rs, lh, rh] = [pose[11], pose[12], pose[23], pose[24]];
+  if (!isVisible(ls) || !isVisible(rs) || !isVisible(lh) || !isVisible(rh)) return null;
+  const [a, b, c, d] = [map(ls), map(rs), map(lh), map(rh)];
+  const shoulderWidth = Math.hypot((b.x - a.x) * aspect, b.y - a.y);
+  const torso = Math.hypot(((a.x + b.x - c.x - d.x) / 2) * aspect, (a.y + b.y - c.y - d.y) / 2);
+  return torso > 0 ? shoulderWidth / torso : null;
+}
+
+function swapSides(text: string): string {
+  return text.replace(/\b(left|right)\b/g, (side) => (side === 'left' ? 'right' : 'left'));
+}
+
+/** Largest head-angle gap (live − template, degrees) above the correction threshold. */
+function worstHeadGap(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  aspect: number
+): { axis: HeadAxis; gap: number } | null {
+  const templateHead = estimateHeadPose(template, aspect);
+  const liveHead = estimateHeadPose(live, aspect, (l) => toLetterboxSpace(l, templateImageSize));
+  if (!templateHead || !liveHead) return null;
+  const gaps = getHeadGaps(templateHead, liveHead);
+  let worst: { axis: HeadAxis; gap: number } | null = null;
+  for (const axis of HEAD_AXES) {
+    if (Math.abs(gaps[axis]) < MIN_HEAD_CORRECTION_DEGREES) continue;
+    if (!worst || Math.abs(gaps[axis]) > Math.abs(worst.gap)) worst = { axis, gap: gaps[axis] };
+  }
+  return worst;
+}
+
+/**
+ * Limb-, head- or torso-specific correction for the biggest gap, or null when close enough.
+ * `regions` limits limb and head prompts to the parts the template is scored on.
+ */
+export function getCorrectionPrompt(
+  template: PoseLandmarks,
+  rawLive: PoseLandmarks,
+  templateImageSize: ImageSize | null,
+  mirrored = false,
+  regions?: readonly BodyRegion[]
+): string | null {
+  if (!template?.length || !rawLive?.length) return null;
+  const live = mirrored ? mirrorLandmarks(rawLive) : rawLive;
+  const aspect = getTemplateAspect(templateImageSize);
+
+  const tRatio = shoulderTurnRatio(template, aspect, (l) => l);
+  const lRatio = shoulderTurnRatio(live, aspect, (l) => toLetterboxSpace(l, templateImageSize));
+  if (tRatio != null && lRatio != null && tRatio > 0) {
+    const change = (lRatio - tRatio) / tRatio;
+    if (change < -MIN_TURN_RATIO) return 'Turn your shoulders toward the camera';
+    if (change > MIN_TURN_RATIO) return 'Turn your shoulders to the side';
+  }
+
+  // Gaps are ranked by how far off and how clearly seen, like the score weights them.
+  const gaps = computeLimbAngleGaps(template, live, templateImageSize, regions);
+  let worst: LimbId | null = null;
+  let worstLimbDegrees = 0;
+  for (const limb of Object.keys(gaps) as LimbId[]) {
+    if (Math.abs(gaps[limb]!) < MIN_CORRECTION_GAP) continue;
+    const weighted = ((Math.abs(gaps[limb]!) * 180) / Math.PI) * getLimbWeight(template, live, limb);
+    if (!worst || weighted > worstLimbDegrees) {
+      worst = limb;
+      worstLimbDegrees = weighted;
+    }
+  }
+  // Whichever is further off — limb angle or head angle — gets the prompt.
+  const head = !regions || regions.includes('head') ? worstHeadGap(template, live, templateImageSize, aspect) : null;
+  let prompt: string;
+  if (head && Math.abs(head.gap) * getHeadVisibilityWeight(template, live) > worstLimbDegrees) {
+    const [tooHigh, tooLow] = HEAD_CORRECTIONS[head.axis];
+    prompt = head.gap > 0 ? tooHigh : tooLow;
+  } else if (worst) {
+    const [tooOpen, tooClosed] = LIMB_CORRECTIONS[worst];
+    prompt = gaps[worst]! > 0 ? tooOpen : tooClosed;
+  } else {
+    return null;
+  }
+  return mirrored ? swapSides(prompt) : prompt;
+}
@@ -0,0 +1,77 @@
+/**
+ * Fixture-driven PoseEstimator: replays a recorded landmark stream frame by frame,
+ * ignoring the input image. Deterministic, offline, no model download.
+ */
+
+import { enqueue, type PoseEstimator, type PoseEstimatorStatus } from './pose-estimator';
+import type { PoseLandmarks } from './pose-matching';
+
+/** Recorded stream: one entry per estimate() call (null = no body in that frame). */
+export type LandmarkFixture = {
+  name?: string;
+  frames: PoseLandmarks[];
+};
+
+export type MockEstimatorOptions = {
+  /** Start over after the last frame (default) or keep returning null. */
+  loop?: boolean;
+};
+
+/** Fetch a fixture JSON (e.g. /fixtures/standing-sway.json). */
+export async function loadLandmarkFixture(url: string): Promise<LandmarkFixture> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Fixture not found: ${url}`);
+  const fixture = (await res.json()) as LandmarkFixture;
+  if (!Array.isArray(fixture.frames)) throw new Error(`Fixture has no frames: ${url}`);
+  return fixture;
+}
+
+export function createMockEstimator(
+  source: LandmarkFixture | Promise<LandmarkFixture>,
+  { loop = true }: MockEstimatorOptions = {}
+): PoseEstimator {
+  let status: PoseEstimatorStatus = 'loading';
+  let error: Error | null = null;
+  let frames: PoseLandmarks[] = [];
+  let index = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const readyPromise = Promise.resolve(source)
+    .then((fixture) => {
+      frames = fixture.frames;
+      if (status !== 'closed') status = 'ready';
+    })
+    .catch((err) => {
+      status = 'error';
+      error = err instanceof Error ? err : new Error('Fixture failed to load');
+      throw error;
+    });
+  readyPromise.catch(() => {});
+
+  return {
+    get status() { return status; },
+    get error() { return error; },
+    // Replays resolve on the next microtask; never worth dropping a frame for.
+    busy: false,
+    ready: () => readyPromise,
+    estimate() {
+      const [result, tail] = enqueue(queue, async () => {
+        await readyPromise;
+        if (status === 'closed' || !frames.length) return null;
+        if (index >= frames.length) {
+          if (!loop) return null;
+          index = 0;
+        }
+        const frame = frames[index++];
+        return frame ? frame.map((l) => ({ ...l })) : null;
+      });
+      queue = tail;
+      return result;
+    },
+    // Fixtures carry landmarks only.
+    segment: async () => null,
+    close() {
+      status = 'closed';
+    },
+  };
+}
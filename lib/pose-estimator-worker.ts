@@ -0,0 +1,169 @@
+/**
+ * PoseEstimator backed by a Web Worker (public/pose-worker.js): frames are copied
+ * into ImageBitmaps and transferred, so inference never blocks the preview or overlay.
+ */
+
+import {
+  createMediaPipeEstimator,
+  type MediaPipeEstimatorOptions,
+  type PoseEstimator,
+  type PoseEstimatorStatus,
+  type PoseInput,
+  type SegmentationMask,
+} from './pose-estimator';
+import type { PoseLandmarks } from './pose-matching';
+
+export type WorkerEstimatorOptions = MediaPipeEstimatorOptions & {
+  workerUrl?: string;
+  /** Run MediaPipe on the main thread if the worker fails to load the model (default true). */
+  fallbackToMainThread?: boolean;
+};
+
+type WorkerMessage =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; id: number; landmarks: PoseLandmarks; timestamp: number; inferenceMs: number }
+  | { type: 'mask'; id: number; mask: ImageBitmap | null };
+
+const DEFAULT_WORKER_URL = '/pose-worker.js';
+const DEFAULT_ASSET_BASE_URL = '/mediapipe/pose';
+
+/** Worker inference needs transferable bitmaps and WebGL on OffscreenCanvas. */
+export function supportsWorkerEstimator(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap === 'function'
+  );
+}
+
+export function createWorkerEstimator({
+  workerUrl = DEFAULT_WORKER_URL,
+  assetBaseUrl = DEFAULT_ASSET_BASE_URL,
+  modelComplexity = 0,
+  smoothLandmarks = true,
+  fallbackToMainThread = true,
+}: WorkerEstimatorOptions = {}): PoseEstimator {
+  let status: PoseEstimatorStatus = 'loading';
+  let error: Error | null = null;
+  let worker: Worker | null = null;
+  let fallback: PoseEstimator | null = null;
+  let nextId = 0;
+  let inFlight = 0;
+  const pending = new Map<number, (landmarks: PoseLandmarks) => void>();
+  const pendingMasks = new Map<number, (mask: SegmentationMask | null) => void>();
+  const isClosed = () => status === 'closed';
+
+  const resolveAll = () => {
+    for (const resolve of pending.values()) resolve(null);
+    pending.clear();
+    for (const resolve of pendingMasks.values()) resolve(null);
+    pendingMasks.clear();
+  };
+
+  const stopWorker = () => {
+    worker?.terminate();
+    worker = null;
+    resolveAll();
+  };
+
+  const loadInWorker = () =>
+    new Promise<void>((resolve, reject) => {
+      const instance = new Worker(workerUrl);
+      worker = instance;
+      instance.onmessage = (event: MessageEvent<WorkerMessage>) => {
+        const message = event.data;
+        if (message.type === 'ready') resolve();
+        else if (message.type === 'error') reject(new Error(message.message));
+        else if (message.type === 'mask') {
+          pendingMasks.get(message.id)?.(message.mask);
+          pendingMasks.delete(message.id);
+        } else {
+          pending.get(message.id)?.(message.landmarks);
+          pending.delete(message.id);
+        }
+      };
+      instance.onerror = (event) => {
+        event.preventDefault();
+        reject(new Error(event.message || 'Pose worker failed to start'));
+      };
+      instance.postMessage({ type: 'init', assetBaseUrl, modelComplexity, smoothLandmarks });
+    });
+
+  /** Copy a frame into a bitmap and transfer it to the worker; resolves with the worker's reply (null if it stopped). */
+  const postFrame = async <T>(
+    type: 'frame' | 'segment',
+    image: PoseInput,
+    replies: Map<number, (value: T | null) => void>,
+    timestamp = performance.now()
+  ) => {
+    if (!worker) return null;
+    const target = worker;
+    const bitmap = await createImageBitmap(image);
+    if (worker !== target) {
+      bitmap.close();
+      return null;
+    }
+    const id = nextId++;
+    const result = new Promise<T | null>((resolve) => replies.set(id, resolve));
+    target.postMessage({ type, id, bitmap, timestamp }, [bitmap]);
+    return result;
+  };
+
+  const readyPromise = (async () => {
+    try {
+      await loadInWorker();
+    } catch (err) {
+      stopWorker();
+      if (!fallbackToMainThread || isClosed()) throw err;
+      console.error('Pose worker unavailable, running on the main thread:', err);
+      fallback = createMediaPipeEstimator({ assetBaseUrl, modelComplexity, smoothLandmarks });
+      await fallback.ready();
+    }
+    if (isClosed()) {
+      stopWorker();
+      fallback?.close();
+      return;
+    }
+    status = 'ready';
+  })().catch((err) => {
+    status = 'error';
+    error = err instanceof Error ? err : new Error('Pose model failed to load');
+    throw error;
+  });
+  // Callers observe failures through ready()/estimate(); don't report it as unhandled here.
+  readyPromise.catch(() => {});
+
+  return {
+    get status() { return status; },
+    get error() { return error; },
+    get busy() { return inFlight > 0; },
+    ready: () => readyPromise,
+    async estimate(image, timestampMs) {
+      inFlight++;
+      try {
+        await readyPromise;
+        if (fallback) return await fallback.estimate(image, timestampMs);
+        return await postFrame('frame', image, pending, timestampMs);
+      } finally {
+        inFlight--;
+      }
+    },
+    async segment(image) {
+      inFlight++;
+      try {
+        await readyPromise;
+        if (fallback) return await fallback.segment(image);
+        return await postFrame('segment', image, pendingMasks);
+      } finally {
+        inFlight--;
+      }
+    },
+    close() {
+      status = 'closed';
+      stopWorker();
+      fallback?.close();
+      fallback = null;
+    },
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Pose estimator interface — the camera page and template extraction depend only
+ * on this, so the model can be swapped (or replayed from fixtures offline).
+ */
+
+import type { PoseLandmarks } from './pose-matching';
+
+export type PoseEstimatorStatus = 'loading' | 'ready' | 'error' | 'closed';
+
+/** Anything MediaPipe accepts as a frame. */
+export type PoseInput = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+
+/** Person mask at the input's resolution: alpha is how likely each pixel belongs to the subject. */
+export type SegmentationMask = HTMLCanvasElement | ImageBitmap;
+
+export interface PoseEstimator {
+  readonly status: PoseEstimatorStatus;
+  readonly error: Error | null;
+  /** An estimate is in flight. Live loops drop frames while busy rather than queueing them. */
+  readonly busy: boolean;
+  /** Resolves once the model is loaded; rejects with the load error. */
+  ready(): Promise<void>;
+  /**
+   * Landmarks for one frame, or null when no body is found. Calls are serialized.
+   * `timestampMs` is the frame's time for MediaPipe's tracking (default: now); it must increase.
+   */
+  estimate(image: PoseInput, timestampMs?: number): Promise<PoseLandmarks>;
+  /**
+   * Person mask for one still (MediaPipe's enableSegmentation, switched on for a single send).
+   * Toggling it restarts the model graph, so this is for captures, not the live loop.
+   * Null when no body is found or the estimator can't segment. Serialized with estimate().
+   */
+  segment(image: PoseInput): Promise<SegmentationMask | null>;
+  close(): void;
+}
+
+/**
+ * Runs `task` after the previous one settles, so callers never overlap sends.
+ * Returns the queued promise and the new tail of the queue.
+ */
+export function enqueue<T>(tail: Promise<unknown>, task: () => Promise<T>): [Promise<T>, Promise<unknown>] {
+  const result = tail.then(task, task);
+  return [result, result.catch(() => {})];
+}
+
+// ---- MediaPipe implementation ----
+
+export type MediaPipeEstimatorOptions = {
+  /** Where the model/WASM files are served from (self-hosted by scripts/prepare-offline-assets.mjs). */
+  assetBaseUrl?: string;
+  modelComplexity?: 0 | 1 | 2;
+  /** MediaPipe's own landmark smoothing across frames (default true); off, each frame stands alone. */
+  smoothLandmarks?: boolean;
+};
+
+const DEFAULT_ASSET_BASE_URL = '/mediapipe/pose';
+
+/** MediaPipe reuses its output canvas; copy the mask before the next send overwrites it. */
+function copyMask(source: HTMLCanvasElement | HTMLImageElement | ImageBitmap): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = source.width;
+  canvas.height = source.height;
+  canvas.getContext('2d')?.drawImage(source, 0, 0);
+  return canvas;
+}
+
+/** MediaPipe Pose behind the PoseEstimator interface. Loads lazily; safe to construct during render. */
+export function createMediaPipeEstimator({
+  assetBaseUrl = DEFAULT_ASSET_BASE_URL,
+  modelComplexity = 0,
+  smoothLandmarks = true,
+}: MediaPipeEstimatorOptions = {}): PoseEstimator {
+  let status: PoseEstimatorStatus = 'loading';
+  let error: Error | null = null;
+  let pose: InstanceType<typeof import('@mediapipe/pose').Pose> | null = null;
+  let latest: PoseLandmarks = null;
+  let latestMask: SegmentationMask | null = null;
+  let wantMask = false;
+  let queue: Promise<unknown> = Promise.resolve();
+  let pending = 0;
+  const isClosed = () => status === 'closed';
+
+  const readyPromise = (async () => {
+    const { Pose } = await import('@mediapipe/pose');
+    const instance = new Pose({ locateFile: (file: string) => `${assetBaseUrl}/${file}` });
+    instance.setOptions({
+      modelComplexity,
+      smoothLandmarks,
+      minDetectionConfidence: 0.5,
+      minTrackingConfidence: 0.5,
+    });
+    instance.onResults((results) => {
+      latest = results.poseLandmarks ? [...results.poseLandmarks] : null;
+      latestMask = wantMask && results.poseLandmarks && results.segmentationMask ? copyMask(results.segmentationMask) : null;
+    });
+    await instance.initialize();
+    if (isClosed()) {
+      instance.close().catch(() => {});
+      return;
+    }
+    pose = instance;
+    status = 'ready';
+  })().catch((err) => {
+    status = 'error';
+    error = err instanceof Error ? err : new Error('Pose model failed to load');
+    throw error;
+  });
+  // Callers observe failures through ready()/estimate(); don't report it as unhandled here.
+  readyPromise.catch(() => {});
+
+  return {
+    get status() { return status; },
+    get error() { return error; },
+    get busy() { return pending > 0; },
+    ready: () => readyPromise,
+    estimate(image, timestampMs) {
+      pending++;
+      const [result, tail] = enqueue(queue, async () => {
+        try {
+          await readyPromise;
+          if (!pose) return null;
+          latest = null;
+          // onResults fires before send() resolves.
+          await pose.send({ image }, timestampMs);
+          return latest;
+        } finally {
+          pending--;
+        }
+      });
+      queue = tail;
+      return result;
+    },
+    segment(image) {
+      pending++;
+      const [result, tail] = enqueue(queue, async () => {
+        try {
+          await readyPromise;
+          if (!pose) return null;
+          latestMask = null;
+          wantMask = true;
+          pose.setOptions({ enableSegmentation: true });
+          try {
+            await pose.send({ image });
+          } finally {
+            wantMask = false;
+            pose?.setOptions({ enableSegmentation: false });
+          }
+          return latestMask;
+        } finally {
+          pending--;
+        }
+      });
+      queue = tail;
+      return result;
+    },
+    close() {
+      status = 'closed';
+      pose?.close().catch(() => {});
+      pose = null;
+    },
+  };
+}
@@ -0,0 +1,491 @@
+/**
+ * Pose matching — compares a live MediaPipe skeleton against a template skeleton.
+ * Template landmarks are normalized to the template image; live landmarks are
+ * normalized to the camera frame and mapped into the template's letterbox first.
+ */
+
+import { estimateHeadPose, getHeadGaps, HEAD_AXES, LEFT_EAR, NOSE, RIGHT_EAR } from './head-pose';
+
+// ---- Types (MediaPipe landmarks are normalized 0–1) ----
+export type Landmark = { x: number; y: number; z?: number; visibility?: number };
+export type PoseLandmarks = Landmark[] | null;
+export type ImageSize = { width: number; height: number };
+
+/**
+ * 'aligned' removes translation, scale and small rotation before scoring (body shape only).
+ * 'strict' scores raw placement in the letterbox (exact composition).
+ */
+export type MatchMode = 'aligned' | 'strict';
+
+/** Per-landmark tolerance multipliers by MediaPipe index (1 = default, 2 = twice the allowed error). */
+export type LandmarkTolerance = Partial<Record<number, number>>;
+
+/** Body parts a template is scored on; half-body shots leave out 'legs'. */
+export type BodyRegion = 'head' | 'torso' | 'arms' | 'legs';
+
+export const BODY_REGIONS: readonly BodyRegion[] = ['head', 'torso', 'arms', 'legs'];
+
+export type MatchOptions = {
+  mode?: MatchMode;
+  /** Live pose comes from a mirrored (selfie) preview: flip x and swap left/right before comparing. */
+  mirrored?: boolean;
+  /** Scales every allowed error (distance, residual, angle); >1 is more forgiving. Default 1. */
+  tolerance?: number;
+  /** Extra multiplier per landmark; limb angles use the tolerance of the joint they bend at. */
+  landmarkTolerance?: LandmarkTolerance;
+  /** Weight of the head-orientation score against one limb in the angle average. Default 2. */
+  headWeight?: number;
+  /** Regions that count toward the score (landmarks, limbs, head direction). Default: all. */
+  regions?: readonly BodyRegion[];
+};
+
+// ---- Scoring constants ----
+/** Nose, shoulders, elbows, wrists, hips, knees. The nose places the head; its direction is scored separately. */
+export const KEY_LANDMARK_INDICES = [0, 11, 12, 13, 14, 15, 16, 23, 24, 25, 26] as const;
+/** Key landmarks per region. */
+const REGION_LANDMARKS: Record<BodyRegion, readonly number[]> = {
+  head: [0],
+  torso: [11, 12, 23, 24],
+  arms: [13, 14, 15, 16],
+  legs: [25, 26],
+};
+export const MIN_VISIBLE_LANDMARKS = 5;
+/**
+ * Landmarks below MIN_LANDMARK_VISIBILITY are dropped; up to FULL_WEIGHT_VISIBILITY they count
+ * in proportion, so legs folded toward the camera still contribute a little instead of nothing.
+ */
+const MIN_LANDMARK_VISIBILITY = 0.2;
+const FULL_WEIGHT_VISIBILITY = 0.7;
+/** Summed pair weight (fully visible pairs count 1) needed before a score means anything. */
+const MIN_VISIBLE_WEIGHT = 3;
+export const CAM_W = 640;
+export const CAM_H = 480;
+/** Average letterbox distance that scores 0 in strict mode. */
+const STRICT_MAX_DISTANCE = 0.42;
+/** Average residual, relative to the template's RMS radius, that scores 0 in aligned mode. */
+const ALIGNED_MAX_RESIDUAL = 0.5;
+/** Largest rotation (radians) the aligner may remove; beyond this a tilt counts against the score. */
+const MAX_ALIGN_ROTATION = (20 * Math.PI) / 180;
+
+/** MediaPipe left/right landmark pairs (face, arms, hands, legs, feet). */
+const LEFT_RIGHT_PAIRS: readonly [number, number][] = [
+  [1, 4], [2, 5], [3, 6], [7, 8], [9, 10],
+  [11, 12], [13, 14], [15, 16], [17, 18], [19, 20], [21, 22],
+  [23, 24], [25, 26], [27, 28], [29, 30], [31, 32],
+];
+
+/** Mirror a pose horizontally: x → 1 − x and left/right landmarks swap indices. */
+export function mirrorLandmarks(landmarks: Landmark[]): Landmark[] {
+  const mirrored = landmarks.map((l) => ({ ...l, x: 1 - l.x }));
+  for (const [a, b] of LEFT_RIGHT_PAIRS) {
+    if (a >= mirrored.length || b >= mirrored.length) continue;
+    [mirrored[a], mirrored[b]] = [mirrored[b], mirrored[a]];
+  }
+  return mirrored;
+}
+
+type Box = { boxX: number; boxY: number; boxW: number; boxH: number };
+type Point = { x: number; y: number };
+
+/** Template width / height; falls back to the camera aspect when the image size is unknown. */
+export function getTemplateAspect(templateImageSize: ImageSize | null): number {
+  return templateImageSize ? templateImageSize.width / templateImageSize.height : CAM_W / CAM_H;
+}
+
+/** Letterbox of the template aspect ratio inside the CAM_W × CAM_H frame. */
+function getLetterbox(templateImageSize: ImageSize | null): Box {
+  const A_c = CAM_W / CAM_H;
+  const A_t = getTemplateAspect(templateImageSize);
+  if (A_t < A_c) {
+    const boxH = CAM_H;
+    const boxW = CAM_H * A_t;
+    return { boxX: (CAM_W - boxW) / 2, boxY: 0, boxW, boxH };
+  }
+  const boxW = CAM_W;
+  const boxH = CAM_W / A_t;
+  return { boxX: 0, boxY: (CAM_H - boxH) / 2, boxW, boxH };
+}
+
+/** Live landmark (camera-normalized) → template-normalized letterbox coordinates. */
+export function toLetterboxSpace(l: Landmark, templateImageSize: ImageSize | null): Point {
+  const { boxX, boxY, boxW, boxH } = getLetterbox(templateImageSize);
+  return { x: (l.x * CAM_W - boxX) / boxW, y: (l.y * CAM_H - boxY) / boxH };
+}
+
+/** Template-normalized letterbox point → camera-normalized coordinates (inverse of toLetterboxSpace). */
+export function fromLetterboxSpace(p: Point, templateImageSize: ImageSize | null): Point {
+  const { boxX, boxY, boxW, boxH } = getLetterbox(templateImageSize);
+  return { x: (p.x * boxW + boxX) / CAM_W, y: (p.y * boxH + boxY) / CAM_H };
+}
+
+/** Live landmark depth (MediaPipe z, in units of frame width) → letterbox height units. */
+function toLetterboxDepth(z: number, templateImageSize: ImageSize | null): number {
+  return (z * CAM_W) / getLetterbox(templateImageSize).boxH;
+}
+
+/**
+ * 0–1 weight for a landmark's visibility (see MIN_LANDMARK_VISIBILITY); 0 means drop it.
+ * Every score, prompt and person finder goes through this, so no term flips on at a hard cutoff.
+ */
+export function visibilityWeight(l: Landmark | undefined): number {
+  if (!l) return 0;
+  const v = l.visibility ?? 1;
+  if (v < MIN_LANDMARK_VISIBILITY) return 0;
+  return Math.min(1, (v - MIN_LANDMARK_VISIBILITY) / (FULL_WEIGHT_VISIBILITY - MIN_LANDMARK_VISIBILITY));
+}
+
+/** Seen well enough to count at all (a visibilityWeight above 0). */
+export function isVisible(l: Landmark | undefined): l is Landmark {
+  return visibilityWeight(l) > 0;
+}
+
+/** Weight of a set of joints compared across both poses: the least visible one decides. */
+function getJointsWeight(template: Landmark[], live: Landmark[], indices: readonly number[]): number {
+  return Math.min(...indices.flatMap((i) => [visibilityWeight(template[i]), visibilityWeight(live[i])]));
+}
+
+/** Key landmark indices in the given regions (all of them when regions is omitted). */
+function getKeyIndices(regions?: readonly BodyRegion[]): readonly number[] {
+  if (!regions) return KEY_LANDMARK_INDICES;
+  const included = new Set(regions.flatMap((r) => REGION_LANDMARKS[r]));
+  return KEY_LANDMARK_INDICES.filter((i) => included.has(i));
+}
+
+/** Template point, live point in letterbox space, the landmark's tolerance and its visibility weight. */
+type Pair = { t: Point; l: Point; tol: number; w: number };
+
+/** Pairs of key landmarks visible in both poses: template point and live point in letterbox space. */
+function collectPairs(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  landmarkTolerance: LandmarkTolerance = {},
+  regions?: readonly BodyRegion[]
+): Pair[] {
+  const pairs: Pair[] = [];
+  for (const i of getKeyIndices(regions)) {
+    const t = template[i];
+    const l = live[i];
+    const w = Math.min(visibilityWeight(t), visibilityWeight(l));
+    if (!t || !l || w === 0) continue;
+    pairs.push({ t: { x: t.x, y: t.y }, l: toLetterboxSpace(l, templateImageSize), tol: landmarkTolerance[i] ?? 1, w });
+  }
+  return pairs;
+}
+
+function distanceToScore(normalizedDistance: number): number {
+  return Math.round(100 * (1 - Math.min(1, normalizedDistance)));
+}
+
+/** Raw placement score: visibility-weighted average letterbox distance, no alignment. */
+function strictScore(pairs: Pair[], tolerance: number): number {
+  let total = 0, weight = 0;
+  for (const { t, l, tol, w } of pairs) {
+    total += (w * Math.hypot(t.x - l.x, t.y - l.y)) / tol;
+    weight += w;
+  }
+  return distanceToScore(total / weight / (STRICT_MAX_DISTANCE * tolerance));
+}
+
+/**
+ * Procrustes-style score: translate, scale and rotate (clamped) the live skeleton
+ * onto the template, then score the residual relative to the template's size.
+ * Coordinates are stretched by the template aspect so x and y share units.
+ * Every sum is weighted by visibility, so half-hidden joints pull the fit less.
+ */
+function alignedScore(pairs: Pair[], aspect: number, tolerance: number): number {
+  const n = pairs.length;
+  const totalWeight = pairs.reduce((s, p) => s + p.w, 0);
+  const ts = pairs.map(({ t }) => ({ x: t.x * aspect, y: t.y }));
+  const ls = pairs.map(({ l }) => ({ x: l.x * aspect, y: l.y }));
+  const centroid = (ps: Point[]) => ({
+    x: ps.reduce((s, p, i) => s + pairs[i].w * p.x, 0) / totalWeight,
+    y: ps.reduce((s, p, i) => s + pairs[i].w * p.y, 0) / totalWeight,
+  });
+  const tc = centroid(ts);
+  const lc = centroid(ls);
+  const tCentered = ts.map((p) => ({ x: p.x - tc.x, y: p.y - tc.y }));
+  const lCentered = ls.map((p) => ({ x: p.x - lc.x, y: p.y - lc.y }));
+
+  let dot = 0, cross = 0, lNorm = 0, tNorm = 0;
+  for (let i = 0; i < n; i++) {
+    const t = tCentered[i], l = lCentered[i], w = pairs[i].w;
+    dot += w * (l.x * t.x + l.y * t.y);
+    cross += w * (l.x * t.y - l.y * t.x);
+    lNorm += w * (l.x * l.x + l.y * l.y);
+    tNorm += w * (t.x * t.x + t.y * t.y);
+  }
+  if (lNorm === 0 || tNorm === 0) return 0;
+
+  const theta = Math.max(-MAX_ALIGN_ROTATION, Math.min(MAX_ALIGN_ROTATION, Math.atan2(cross, dot)));
+  const cos = Math.cos(theta), sin = Math.sin(theta);
+  const rotated = lCentered.map((l) => ({ x: l.x * cos - l.y * sin, y: l.x * sin + l.y * cos }));
+  let projected = 0;
+  for (let i = 0; i < n; i++) projected += pairs[i].w * (rotated[i].x * tCentered[i].x + rotated[i].y * tCentered[i].y);
+  const scale = Math.max(0, projected / lNorm);
+
+  let residual = 0;
+  for (let i = 0; i < n; i++) {
+    const { w, tol } = pairs[i];
+    residual += (w * Math.hypot(rotated[i].x * scale - tCentered[i].x, rotated[i].y * scale - tCentered[i].y)) / tol;
+  }
+  const templateRadius = Math.sqrt(tNorm / totalWeight);
+  return distanceToScore(residual / totalWeight / templateRadius / (ALIGNED_MAX_RESIDUAL * tolerance));
+}
+
+/** Match score 0–100. Strict mode scores letterbox placement; aligned mode scores body shape only. */
+export function computeMatchScore(
+  template: PoseLandmarks,
+  live: PoseLandmarks,
+  templateImageSize: ImageSize | null,
+  { mode = 'aligned', mirrored = false, tolerance = 1, landmarkTolerance, regions }: MatchOptions = {}
+): number {
+  if (!template || !live) return 0;
+  const pairs = collectPairs(template, mirrored ? mirrorLandmarks(live) : live, templateImageSize, landmarkTolerance, regions);
+  const weight = pairs.reduce((s, p) => s + p.w, 0);
+  if (pairs.length < Math.min(MIN_VISIBLE_LANDMARKS, getKeyIndices(regions).length) || weight < MIN_VISIBLE_WEIGHT) return 0;
+  if (mode === 'strict') return strictScore(pairs, tolerance);
+  const aspect = getTemplateAspect(templateImageSize);
+  return alignedScore(pairs, aspect, tolerance);
+}
+
+// ---- Joint angles & per-limb breakdown ----
+
+/** Ghost limb segments that get their own score. */
+export type LimbId =
+  | 'leftUpperArm' | 'leftForearm' | 'rightUpperArm' | 'rightForearm'
+  | 'leftThigh' | 'leftShin' | 'rightThigh' | 'rightShin';
+
+export type LimbScores = Partial<Record<LimbId, number>>;
+export type LimbRating = 'good' | 'close' | 'off';
+
+export type PoseMatch = {
+  /** Blended angle + position score, 0–100. */
+  score: number;
+  /** Per-limb angle score, 0–100. Limbs with hidden joints are omitted. */
+  limbs: LimbScores;
+  /** Head orientation score, 0–100; absent when either face is hidden or the head isn't scored. */
+  head?: number;
+  /** Relative-depth score, 0–100; absent when the template has no depth (see computeDepthScore). */
+  depth?: number;
+};
+
+/**
+ * Each limb is scored by the angle at the joint it hangs from: [a, vertex, b].
+ * Upper arm → shoulder, forearm → elbow, thigh → hip, shin → knee.
+ */
+export const LIMB_JOINTS: Record<LimbId, readonly [number, number, number]> = {
+  leftUpperArm: [13, 11, 23],
+  leftForearm: [11, 13, 15],
+  rightUpperArm: [14, 12, 24],
+  rightForearm: [12, 14, 16],
+  leftThigh: [11, 23, 25],
+  leftShin: [23, 25, 27],
+  rightThigh: [12, 24, 26],
+  rightShin: [24, 26, 28],
+};
+
+/** Landmark pair drawn for each limb segment. */
+export const LIMB_SEGMENTS: Record<LimbId, readonly [number, number]> = {
+  leftUpperArm: [11, 13],
+  leftForearm: [13, 15],
+  rightUpperArm: [12, 14],
+  rightForearm: [14, 16],
+  leftThigh: [23, 25],
+  leftShin: [25, 27],
+  rightThigh: [24, 26],
+  rightShin: [26, 28],
+};
+
+/** Region each limb belongs to, for templates scored on part of the body. */
+const LIMB_REGIONS: Record<LimbId, BodyRegion> = {
+  leftUpperArm: 'arms',
+  leftForearm: 'arms',
+  rightUpperArm: 'arms',
+  rightForearm: 'arms',
+  leftThigh: 'legs',
+  leftShin: 'legs',
+  rightThigh: 'legs',
+  rightShin: 'legs',
+};
+
+/** Angle difference (radians) that scores 0 for a limb. */
+const MAX_ANGLE_DIFF = Math.PI / 3;
+/** Share of the overall score taken from joint angles; the rest is position. */
+const ANGLE_WEIGHT = 0.6;
+/** Mean head-angle gap (degrees over yaw/pitch/roll) that scores 0. */
+const MAX_HEAD_DIFF = 40;
+const DEFAULT_HEAD_WEIGHT = 2;
+/** Mean relative-depth gap, in torso lengths, that scores 0. */
+const MAX_DEPTH_DIFF = 0.6;
+/** Share of the overall score taken from depth, when both poses have it. */
+const DEPTH_WEIGHT = 0.2;
+/** Templates whose z never leaves this band are flat (drawn in the editor) and skip depth. */
+const MIN_TEMPLATE_DEPTH = 1e-3;
+const LIMB_GOOD = 75;
+const LIMB_CLOSE = 50;
+
+/** Unsigned angle at `vertex` between a and b (radians), in aspect-corrected space. */
+function jointAngle(a: Point, vertex: Point, b: Point, aspect: number): number | null {
+  const ax = (a.x - vertex.x) * aspect, ay = a.y - vertex.y;
+  const bx = (b.x - vertex.x) * aspect, by = b.y - vertex.y;
+  const na = Math.hypot(ax, ay), nb = Math.hypot(bx, by);
+  if (na === 0 || nb === 0) return null;
+  const cos = Math.max(-1, Math.min(1, (ax * bx + ay * by) / (na * nb)));
+  return Math.acos(cos);
+}
+
+/** 0–1 weight of a limb's angle term: the visibility of its least visible joint in either pose. */
+export function getLimbWeight(template: Landmark[], live: Landmark[], limb: LimbId): number {
+  return getJointsWeight(template, live, LIMB_JOINTS[limb]);
+}
+
+/** 0–1 weight of the head term: the visibility of the least visible of nose and ears in either pose. */
+export function getHeadVisibilityWeight(template: Landmark[], live: Landmark[]): number {
+  return getJointsWeight(template, live, [NOSE, LEFT_EAR, RIGHT_EAR]);
+}
+
+/**
+ * Signed joint-angle gap per limb (live − template, radians), for limbs whose three
+ * joints are visible in both poses. Positive means the live joint is more open.
+ */
+export function computeLimbAngleGaps(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  regions?: readonly BodyRegion[]
+): Partial<Record<LimbId, number>> {
+  const aspect = getTemplateAspect(templateImageSize);
+  const gaps: Partial<Record<LimbId, number>> = {};
+  for (const limb of Object.keys(LIMB_JOINTS) as LimbId[]) {
+    if (regions && !regions.includes(LIMB_REGIONS[limb])) continue;
+    const [a, v, b] = LIMB_JOINTS[limb];
+    if (getLimbWeight(template, live, limb) === 0) continue;
+    const ta = template[a], tv = template[v], tb = template[b];
+    const la = live[a], lv = live[v], lb = live[b];
+    const tAngle = jointAngle(ta, tv, tb, aspect);
+    const lAngle = jointAngle(
+      toLetterboxSpace(la, templateImageSize),
+      toLetterboxSpace(lv, templateImageSize),
+      toLetterboxSpace(lb, templateImageSize),
+      aspect
+    );
+    if (tAngle == null || lAngle == null) continue;
+    gaps[limb] = lAngle - tAngle;
+  }
+  return gaps;
+}
+
+/** Angle score 0–100 per limb (see computeLimbAngleGaps). */
+export function computeLimbScores(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  { tolerance = 1, landmarkTolerance = {}, regions }: Pick<MatchOptions, 'tolerance' | 'landmarkTolerance' | 'regions'> = {}
+): LimbScores {
+  const gaps = computeLimbAngleGaps(template, live, templateImageSize, regions);
+  const limbs: LimbScores = {};
+  for (const limb of Object.keys(gaps) as LimbId[]) {
+    const vertexTolerance = landmarkTolerance[LIMB_JOINTS[limb][1]] ?? 1;
+    limbs[limb] = distanceToScore(Math.abs(gaps[limb]!) / (MAX_ANGLE_DIFF * tolerance * vertexTolerance));
+  }
+  return limbs;
+}
+
+/** Head orientation score 0–100 (see lib/head-pose.ts), or null when either face is hidden. */
+export function computeHeadScore(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  { tolerance = 1, landmarkTolerance = {} }: Pick<MatchOptions, 'tolerance' | 'landmarkTolerance'> = {}
+): number | null {
+  const aspect = getTemplateAspect(templateImageSize);
+  const templateHead = estimateHeadPose(template, aspect);
+  const liveHead = estimateHeadPose(live, aspect, (l) => toLetterboxSpace(l, templateImageSize));
+  if (!templateHead || !liveHead) return null;
+  const gaps = getHeadGaps(templateHead, liveHead);
+  const meanGap = HEAD_AXES.reduce((s, axis) => s + Math.abs(gaps[axis]), 0) / HEAD_AXES.length;
+  return distanceToScore(meanGap / (MAX_HEAD_DIFF * tolerance * (landmarkTolerance[0] ?? 1)));
+}
+
+/** Hip midpoint and torso length (shoulder midpoint to hip midpoint) in aspect-corrected space. */
+function getTorsoFrame(pose: Landmark[], aspect: number, map: (l: Landmark) => Point): { hipZ: number; torso: number } | null {
+  const ls = pose[11], rs = pose[12], lh = pose[23], rh = pose[24];
+  if (!isVisible(ls) || !isVisible(rs) || !isVisible(lh) || !isVisible(rh)) return null;
+  const [a, b, c, d] = [ls, rs, lh, rh].map(map);
+  const torso = Math.hypot(((a.x + b.x - c.x - d.x) / 2) * aspect, (a.y + b.y - c.y - d.y) / 2);
+  if (torso === 0) return null;
+  return { hipZ: ((lh.z ?? 0) + (rh.z ?? 0)) / 2, torso };
+}
+
+/**
+ * Relative-depth score 0–100, or null when the template has no depth or either torso is hidden.
+ * Each key landmark's z is taken relative to the hips and measured in torso lengths, so a
+ * forward lean (shoulders toward the camera) and a backward lean that look alike in 2D score apart,
+ * as do knees pulled toward the camera when sitting or crouching.
+ */
+export function computeDepthScore(
+  template: Landmark[],
+  live: Landmark[],
+  templateImageSize: ImageSize | null,
+  { tolerance = 1, landmarkTolerance = {}, regions }: Pick<MatchOptions, 'tolerance' | 'landmarkTolerance' | 'regions'> = {}
+): number | null {
+  if (!template.some((l) => Math.abs(l?.z ?? 0) > MIN_TEMPLATE_DEPTH)) return null;
+  const aspect = getTemplateAspect(templateImageSize);
+  const templateTorso = getTorsoFrame(template, aspect, (l) => l);
+  const liveTorso = getTorsoFrame(live, aspect, (l) => toLetterboxSpace(l, templateImageSize));
+  if (!templateTorso || !liveTorso) return null;
+  let total = 0, weight = 0;
+  for (const i of getKeyIndices(regions)) {
+    if (i === 23 || i === 24) continue;
+    const t = template[i], l = live[i];
+    const w = Math.min(visibilityWeight(t), visibilityWeight(l));
+    if (!t || !l || w === 0 || t.z == null || l.z == null) continue;
+    const tDepth = ((t.z - templateTorso.hipZ) * aspect) / templateTorso.torso;
+    const lDepth = toLetterboxDepth(l.z - liveTorso.hipZ, templateImageSize) / liveTorso.torso;
+    total += (w * Math.abs(tDepth - lDepth)) / (landmarkTolerance[i] ?? 1);
+    weight += w;
+  }
+  if (weight === 0) return null;
+  return distanceToScore(total / weight / (MAX_DEPTH_DIFF * tolerance));
+}
+
+/**
+ * Overall score plus per-limb breakdown: joint angles blended with position (see computeMatchScore).
+ * Head orientation joins the angle average with `headWeight`; relative depth, when the template
+ * has it, takes DEPTH_WEIGHT of the result.
+ */
+export function computePoseMatch(
+  template: PoseLandmarks,
+  live: PoseLandmarks,
+  templateImageSize: ImageSize | null,
+  options: MatchOptions = {}
+): PoseMatch {
+  const positionScore = computeMatchScore(template, live, templateImageSize, options);
+  if (!template || !live || positionScore === 0) return { score: positionScore, limbs: {} };
+  const oriented = options.mirrored ? mirrorLandmarks(live) : live;
+  const limbs = computeLimbScores(template, oriented, templateImageSize, options);
+  const includesHead = !options.regions || options.regions.includes('head');
+  const head = includesHead ? computeHeadScore(template, oriented, templateImageSize, options) ?? undefined : undefined;
+  const depth = computeDepthScore(template, oriented, templateImageSize, options) ?? undefined;
+  // Each angle term counts in proportion to how clearly its joints are seen.
+  const headWeight = head == null ? 0 : (options.headWeight ?? DEFAULT_HEAD_WEIGHT) * getHeadVisibilityWeight(template, oriented);
+  let angleTotal = (head ?? 0) * headWeight;
+  let weight = headWeight;
+  for (const limb of Object.keys(limbs) as LimbId[]) {
+    const w = getLimbWeight(template, oriented, limb);
+    angleTotal += w * limbs[limb]!;
+    weight += w;
+  }
+  const shapeScore = weight === 0
+    ? positionScore
+    : ANGLE_WEIGHT * (angleTotal / weight) + (1 - ANGLE_WEIGHT) * positionScore;
+  const score = depth == null ? shapeScore : (1 - DEPTH_WEIGHT) * shapeScore + DEPTH_WEIGHT * depth;
+  return { score: Math.round(score), limbs, head, depth };
+}
+
+export function getLimbRating(score: number): LimbRating {
+  if (score >= LIMB_GOOD) return 'good';
+  if (score >= LIMB_CLOSE) return 'close';
+  return 'off';
+}
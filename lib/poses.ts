@@ -1,12 +1,35 @@
+import type { BodyRegion, ImageSize, Landmark } from './pose-matching';
+import type { MatchProfile } from './match-profiles';
+import precomputedLandmarks from './pose-landmarks.json';
+
+export type PoseDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface PoseTemplate {
   id: string;
   name: string;
   category: string;
   imageUrl: string;
-  difficulty: 'easy' | 'medium' | 'hard';
+  /** Picks the default match profile (see lib/match-profiles.ts). */
+  difficulty: PoseDifficulty;
+  /** Per-template overrides of the difficulty's threshold, hold or tolerance. */
+  match?: Partial<MatchProfile>;
+  /** Body regions the pose is scored and coached on; absent → the whole body. */
+  regions?: BodyRegion[];
+  /** Precomputed skeleton from scripts/extract_pose_landmarks.py; absent → camera extracts live. */
+  landmarks?: Landmark[];
+  /** Natural size of imageUrl, needed alongside landmarks for letterboxing. */
+  imageSize?: ImageSize;
+}
+
+type PrecomputedPose = { imageSize: ImageSize; landmarks: Landmark[] };
+
+/** Attach precomputed landmarks (lib/pose-landmarks.json) to catalog entries by id. */
+function withPrecomputedLandmarks(templates: PoseTemplate[]): PoseTemplate[] {
+  const precomputed = precomputedLandmarks as Record<string, PrecomputedPose>;
+  return templates.map((t) => (precomputed[t.id] ? { ...t, ...precomputed[t.id] } : t));
 }
 
-export const POSE_TEMPLATES: PoseTemplate[] = [
+export const POSE_TEMPLATES: PoseTemplate[] = withPrecomputedLandmarks([
   {
     id: 'urban-stoop',
     name: 'Urban Stoop',
@@ -34,6 +57,8 @@ export const POSE_TEMPLATES: PoseTemplate[] = [
     category: 'Casual',
     imageUrl: '/poses/cafe-sip.jpg',
     difficulty: 'easy',
+    // Wide trousers hide the knees; the cup arm is what makes the shot.
+    match: { landmarkTolerance: { 25: 1.5, 26: 1.5, 27: 1.5, 28: 1.5 } },
   },
   {
     id: 'riverside-sit',
@@ -62,6 +87,8 @@ export const POSE_TEMPLATES: PoseTemplate[] = [
     category: 'Street',
     imageUrl: '/poses/curb-look-up.jpg',
     difficulty: 'easy',
+    // The pose is the upward gaze; a body that matches with the chin down shouldn't pass.
+    match: { headWeight: 6 },
   },
   {
     id: 'stair-stride',
@@ -90,8 +117,10 @@ export const POSE_TEMPLATES: PoseTemplate[] = [
     category: 'Night Out',
     imageUrl: '/poses/night-toast.jpg',
     difficulty: 'medium',
+    // Half-body shot: the legs are out of frame, so only the upper body counts.
+    regions: ['head', 'torso', 'arms'],
   },
-];
+]);
 
 export function getPoseById(id: string): PoseTemplate | undefined {
   return POSE_TEMPLATES.find((p) => p.id === id);
@@ -0,0 +1,33 @@
+/**
+ * Sharing — hand an image to the native share sheet where the browser can share files
+ * (mobile), otherwise download it.
+ */
+
+/** File extension for an image blob (stills are JPEG, older captures and exports PNG). */
+export function imageExtension(blob: Blob): string {
+  return blob.type === 'image/png' ? 'png' : 'jpg';
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Share `blob` as `<basename>-<timestamp>.<ext>`; falls back to a download when sharing is unavailable or fails. */
+export async function shareOrDownload(blob: Blob, basename: string, title: string): Promise<void> {
+  const filename = `${basename}-${Date.now()}.${imageExtension(blob)}`;
+  const file = new File([blob], filename, { type: blob.type });
+  if (typeof navigator !== 'undefined' && navigator.share && navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title });
+      return;
+    } catch {
+      // Dismissed or not allowed; save it instead.
+    }
+  }
+  downloadBlob(blob, filename);
+}
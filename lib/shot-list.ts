@@ -0,0 +1,86 @@
+/**
+ * Shot lists — a queue of poses shot one after another in a single camera session.
+ * Browse and Saved build a draft in sessionStorage; starting it hands the list to the
+ * camera, which steps through the shots and keeps each one's photo and score.
+ */
+
+/** A queued pose: catalog poses by id and image path, saved poses by row id (their images are too big to queue). */
+export type ShotListPose = {
+  name: string;
+  /** Catalog pose id (lib/poses.ts). */
+  id?: string;
+  /** Catalog image path; absent for saved poses. */
+  imageUrl?: string;
+  /** saved_photos row, loaded when its shot comes up. */
+  savedId?: string;
+};
+
+export type ShotStatus = 'pending' | 'taken' | 'skipped';
+
+export type Shot = {
+  pose: ShotListPose;
+  status: ShotStatus;
+  /** The kept photo and its match score, once taken. */
+  photoDataUrl: string | null;
+  score: number | null;
+};
+
+export const MAX_SHOT_LIST_SIZE = 10;
+
+const DRAFT_KEY = 'shotListDraft';
+const START_KEY = 'shotList';
+
+/** Same pose whichever page queued it. */
+export function getShotListKey(pose: ShotListPose): string {
+  return pose.savedId ? `saved:${pose.savedId}` : `pose:${pose.id ?? pose.imageUrl}`;
+}
+
+function readPoses(key: string): ShotListPose[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(sessionStorage.getItem(key) ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function loadShotListDraft(): ShotListPose[] {
+  return readPoses(DRAFT_KEY);
+}
+
+export function saveShotListDraft(poses: ShotListPose[]) {
+  if (poses.length) sessionStorage.setItem(DRAFT_KEY, JSON.stringify(poses));
+  else sessionStorage.removeItem(DRAFT_KEY);
+}
+
+/** Add the pose, or remove it if it's already queued. Full lists are left as they are. */
+export function toggleShotListPose(draft: ShotListPose[], pose: ShotListPose): ShotListPose[] {
+  const key = getShotListKey(pose);
+  if (draft.some((p) => getShotListKey(p) === key)) return draft.filter((p) => getShotListKey(p) !== key);
+  return draft.length >= MAX_SHOT_LIST_SIZE ? draft : [...draft, pose];
+}
+
+/** Hand the draft to the camera and go there. */
+export function startShotList(poses: ShotListPose[]) {
+  sessionStorage.setItem(START_KEY, JSON.stringify(poses));
+  sessionStorage.removeItem(DRAFT_KEY);
+  window.location.href = '/camera';
+}
+
+/** The list handed over by startShotList, once (like selectedPose); null when there isn't one. */
+export function takeShotList(): Shot[] | null {
+  const poses = readPoses(START_KEY);
+  sessionStorage.removeItem(START_KEY);
+  if (!poses.length) return null;
+  return poses.map((pose) => ({ pose, status: 'pending', photoDataUrl: null, score: null }));
+}
+
+/** Next pending shot after `from`, wrapping around (a retake can jump back); null when none are left. */
+export function getNextPendingShot(shots: Shot[], from: number): number | null {
+  for (let step = 1; step <= shots.length; step++) {
+    const i = (from + step) % shots.length;
+    if (shots[i].status === 'pending') return i;
+  }
+  return null;
+}
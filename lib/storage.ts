@@ -1,3 +1,7 @@
+import { MATCH_LEVELS, type MatchLevel } from './match-profiles';
+import { LIGHTING_WARNING_LABELS, type LightingWarning } from './image-analysis';
+import type { Landmark } from './pose-matching';
+
 export interface SavedPhoto {
   id: string;
   poseName: string;
@@ -6,15 +10,45 @@ export interface SavedPhoto {
   createdAt: string;
 }
 
+/** Match score at `t` ms into a recorded clip. */
+export interface ScoreSample {
+  t: number;
+  score: number;
+}
+
+export type GalleryMediaType = 'photo' | 'video';
+
 export interface GalleryPhoto {
   id: string;
   poseName: string;
+  /** Image data URL, or the clip's video data URL when mediaType is 'video'. */
   photoDataUrl: string;
+  /** Best score of the shot (peak score for clips). */
   score: number;
   captureType: 'auto' | 'manual';
+  mediaType: GalleryMediaType;
+  /** Per-frame match scores; clips only. */
+  scoreTimeline: ScoreSample[] | null;
+  /** Matching level the shot was taken at; null for captures made before levels existed. */
+  matchLevel: MatchLevel | null;
+  /** Lighting problems detected when the shot was taken (any frame, for clips). */
+  lightingWarnings: LightingWarning[];
+  /** Inspiration image the shot was matched against (a /poses path or a downscaled data URL); photos only. */
+  templateImageUrl: string | null;
+  /** Template landmarks, normalized to templateImageUrl. */
+  templateLandmarks: Landmark[] | null;
+  /** Live landmarks at capture time, normalized to the photo itself. */
+  landmarks: Landmark[] | null;
   createdAt: string;
 }
 
+/** Template and pose data kept with a photo so it can be exported side by side later. */
+export type GalleryComparison = {
+  templateImageUrl: string | null;
+  templateLandmarks: Landmark[] | null;
+  landmarks: Landmark[] | null;
+};
+
 const hasSupabase = Boolean(
   process.env.NEXT_PUBLIC_SUPABASE_URL &&
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY &&
@@ -105,28 +139,57 @@ export async function deletePhotoRemote(id: string): Promise<void> {
   if (error) throw error;
 }
 
-// ---------- Gallery (captured photos) ----------
+// ---------- Gallery (captured photos and clips) ----------
+
+type GalleryRow = {
+  id: string;
+  photo_data: string;
+  pose_name: string;
+  match_score: number | null;
+  capture_type: string;
+  media_type: string | null;
+  score_timeline: ScoreSample[] | null;
+  match_level: string | null;
+  lighting_warnings: string[] | null;
+  template_image: string | null;
+  template_landmarks: Landmark[] | null;
+  landmarks: Landmark[] | null;
+  created_at: string;
+};
+
+const isLightingWarning = (w: string): w is LightingWarning => w in LIGHTING_WARNING_LABELS;
+
+function toGalleryPhoto(row: GalleryRow): GalleryPhoto {
+  return {
+    id: row.id,
+    poseName: row.pose_name,
+    photoDataUrl: row.photo_data,
+    score: row.match_score ?? 0,
+    captureType: row.capture_type === 'manual' ? 'manual' : 'auto',
+    mediaType: row.media_type === 'video' ? 'video' : 'photo',
+    scoreTimeline: row.score_timeline ?? null,
+    matchLevel: MATCH_LEVELS.find((level) => level === row.match_level) ?? null,
+    lightingWarnings: (row.lighting_warnings ?? []).filter(isLightingWarning),
+    templateImageUrl: row.template_image ?? null,
+    templateLandmarks: row.template_landmarks ?? null,
+    landmarks: row.landmarks ?? null,
+    createdAt: row.created_at,
+  };
+}
 
 export async function fetchGalleryPhotos(): Promise<GalleryPhoto[]> {
   if (!hasSupabase) throw new Error('Supabase env vars missing');
   const { supabase, userId } = await requireUserId();
   const { data, error } = await supabase
     .from('gallery_photos')
-    .select('id, photo_data, pose_name, match_score, capture_type, created_at')
+    .select('id, photo_data, pose_name, match_score, capture_type, media_type, score_timeline, match_level, lighting_warnings, template_image, template_landmarks, landmarks, created_at')
     .eq('user_id', userId)
     .order('created_at', { ascending: false });
   if (error) throw error;
-  return (data ?? []).map((row) => ({
-    id: row.id,
-    poseName: row.pose_name,
-    photoDataUrl: row.photo_data,
-    score: row.match_score ?? 0,
-    captureType: row.capture_type === 'manual' ? 'manual' : 'auto',
-    createdAt: row.created_at,
-  }));
+  return ((data ?? []) as GalleryRow[]).map(toGalleryPhoto);
 }
 
-export async function saveGalleryPhoto(photo: { poseName: string; photoDataUrl: string; score: number; captureType: 'auto' | 'manual'; }): Promise<GalleryPhoto> {
+export async function saveGalleryPhoto(photo: { poseName: string; photoDataUrl: string; score: number; captureType: 'auto' | 'manual'; matchLevel: MatchLevel; lightingWarnings: LightingWarning[]; comparison?: GalleryComparison; }): Promise<GalleryPhoto> {
   if (!hasSupabase) throw new Error('Supabase env vars missing');
   const { supabase, userId } = await requireUserId();
   const { data, error } = await supabase
@@ -137,18 +200,39 @@ export async function saveGalleryPhoto(photo: { poseName: string; photoDataUrl:
       pose_name: photo.poseName,
       match_score: photo.score,
       capture_type: photo.captureType,
+      match_level: photo.matchLevel,
+      lighting_warnings: photo.lightingWarnings,
+      template_image: photo.comparison?.templateImageUrl ?? null,
+      template_landmarks: photo.comparison?.templateLandmarks ?? null,
+      landmarks: photo.comparison?.landmarks ?? null,
     })
     .select()
     .single();
   if (error || !data) throw error || new Error('Save failed');
-  return {
-    id: data.id,
-    poseName: data.pose_name,
-    photoDataUrl: data.photo_data,
-    score: data.match_score ?? 0,
-    captureType: data.capture_type === 'manual' ? 'manual' : 'auto',
-    createdAt: data.created_at,
-  };
+  return toGalleryPhoto(data as GalleryRow);
+}
+
+/** Save a recorded posing clip (video data URL) with its score timeline. */
+export async function saveGalleryVideo(video: { poseName: string; videoDataUrl: string; scoreTimeline: ScoreSample[]; matchLevel: MatchLevel; lightingWarnings: LightingWarning[]; }): Promise<GalleryPhoto> {
+  if (!hasSupabase) throw new Error('Supabase env vars missing');
+  const { supabase, userId } = await requireUserId();
+  const { data, error } = await supabase
+    .from('gallery_photos')
+    .insert({
+      user_id: userId,
+      photo_data: video.videoDataUrl,
+      pose_name: video.poseName,
+      match_score: Math.max(0, ...video.scoreTimeline.map((s) => s.score)),
+      capture_type: 'manual',
+      media_type: 'video',
+      score_timeline: video.scoreTimeline,
+      match_level: video.matchLevel,
+      lighting_warnings: video.lightingWarnings,
+    })
+    .select()
+    .single();
+  if (error || !data) throw error || new Error('Save failed');
+  return toGalleryPhoto(data as GalleryRow);
 }
 
 export async function deleteGalleryPhoto(id: string): Promise<void> {
@@ -0,0 +1,149 @@
+/**
+ * Video analysis — score a pre-recorded video instead of the live camera.
+ * Frames are decoded by seeking a detached <video> at a fixed rate and stamped with video time,
+ * so the same file and template always give the same timeline (no camera, no dropped frames)
+ * as long as each run gets a fresh estimator with MediaPipe's smoothing off. Each frame goes
+ * through the live path — estimator, One-Euro filter, match score — and the best moments
+ * can be pulled out as full-resolution stills.
+ */
+
+import type { PoseEstimator, PoseInput } from './pose-estimator';
+import { createLandmarkFilter, DEFAULT_ONE_EURO_PARAMS } from './landmark-filter';
+import { CAM_H, type PoseLandmarks } from './pose-matching';
+
+/** Frames scored per second of video. */
+export const VIDEO_SAMPLE_FPS = 10;
+/** Longer files are truncated to their first VIDEO_MAX_DURATION_S seconds: every sampled frame is a seek plus a model pass. */
+export const VIDEO_MAX_DURATION_S = 120;
+/** Top frames offered for saving. */
+export const VIDEO_TOP_FRAME_COUNT = 6;
+/** Top frames are at least this far apart, so they aren't all the same moment. */
+const MIN_TOP_FRAME_GAP_MS = 500;
+
+export type VideoFrameScore = {
+  /** Milliseconds from the start of the video. */
+  t: number;
+  score: number;
+  /** Filtered landmarks, normalized to the video frame. */
+  landmarks: PoseLandmarks;
+};
+
+/** Resolves once `video` has finished seeking to `seconds`. */
+function seekTo(video: HTMLVideoElement, seconds: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener('seeked', onSeeked);
+      reject(new Error('Video seek failed'));
+    };
+    video.addEventListener('seeked', onSeeked, { once: true });
+    video.addEventListener('error', onError, { once: true });
+    video.currentTime = seconds;
+  });
+}
+
+/**
+ * Load a video (usually an object URL for a picked file) and its duration. MediaRecorder
+ * WebM reports an Infinity duration until it has been seeked past the end, so that's done first.
+ */
+export async function openVideo(url: string): Promise<HTMLVideoElement> {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  await new Promise<void>((resolve, reject) => {
+    video.onloadeddata = () => resolve();
+    video.onerror = () => reject(new Error('Could not decode that video'));
+    video.src = url;
+  });
+  if (!Number.isFinite(video.duration)) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER);
+    await seekTo(video, 0);
+  }
+  if (!Number.isFinite(video.duration) || !video.videoWidth) throw new Error('Could not decode that video');
+  return video;
+}
+
+/** Sampled frame times in ms: VIDEO_SAMPLE_FPS through the first VIDEO_MAX_DURATION_S seconds. */
+export function getSampleTimes(durationSeconds: number): number[] {
+  const count = Math.floor(Math.min(durationSeconds, VIDEO_MAX_DURATION_S) * VIDEO_SAMPLE_FPS) + 1;
+  return Array.from({ length: count }, (_, i) => Math.round((i * 1000) / VIDEO_SAMPLE_FPS));
+}
+
+export type FrameScoringOptions = { signal?: AbortSignal; onProgress?: (progress: number) => void };
+
+/**
+ * Estimate, filter and score the frames at `times`, in order; `readFrame` supplies each one.
+ * No DOM of its own, so a fixture replay can drive it outside the browser. Stops early
+ * (returning what it has) when `signal` aborts.
+ */
+export async function scoreFrames(
+  times: number[],
+  readFrame: (t: number) => Promise<PoseInput>,
+  estimator: PoseEstimator,
+  scoreFrame: (landmarks: PoseLandmarks) => number,
+  { signal, onProgress }: FrameScoringOptions = {}
+): Promise<VideoFrameScore[]> {
+  const filter = createLandmarkFilter(DEFAULT_ONE_EURO_PARAMS);
+  const samples: VideoFrameScore[] = [];
+  for (let i = 0; i < times.length && !signal?.aborted; i++) {
+    const t = times[i];
+    const frame = await readFrame(t);
+    // Timestamps are video time, so the model and the filter track the same way at any decode speed.
+    const landmarks = filter.filter(await estimator.estimate(frame, t), t);
+    samples.push({ t, score: scoreFrame(landmarks), landmarks });
+    onProgress?.((i + 1) / times.length);
+  }
+  return samples;
+}
+
+/**
+ * Estimate and score every sampled frame of `video`, downscaled to CAM_H like the live camera.
+ * `estimator` should be this run's own, with smoothing off: landmarks carried over from
+ * the live camera or an earlier run would change the timeline.
+ */
+export async function scoreVideoFrames(
+  video: HTMLVideoElement,
+  estimator: PoseEstimator,
+  scoreFrame: (landmarks: PoseLandmarks) => number,
+  options: FrameScoringOptions = {}
+): Promise<VideoFrameScore[]> {
+  const scale = Math.min(1, CAM_H / video.videoHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context missing');
+
+  const readFrame = async (t: number) => {
+    await seekTo(video, t / 1000);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+  return scoreFrames(getSampleTimes(video.duration), readFrame, estimator, scoreFrame, options);
+}
+
+/** Highest-scoring samples, best first, at least MIN_TOP_FRAME_GAP_MS apart; frames scoring 0 never count. */
+export function pickTopFrames(samples: VideoFrameScore[], count = VIDEO_TOP_FRAME_COUNT): VideoFrameScore[] {
+  const picked: VideoFrameScore[] = [];
+  for (const sample of [...samples].sort((a, b) => b.score - a.score || a.t - b.t)) {
+    if (picked.length >= count || sample.score === 0) break;
+    if (picked.every((p) => Math.abs(p.t - sample.t) >= MIN_TOP_FRAME_GAP_MS)) picked.push(sample);
+  }
+  return picked;
+}
+
+/** Full-resolution frame at `t` ms. */
+export async function grabVideoFrame(video: HTMLVideoElement, t: number): Promise<HTMLCanvasElement> {
+  await seekTo(video, t / 1000);
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context missing');
+  ctx.drawImage(video, 0, 0);
+  return canvas;
+}
@@ -6,6 +6,18 @@ const nextConfig: NextConfig = {
     '@mediapipe/camera_utils',
     '@mediapipe/drawing_utils',
   ],
+  async headers() {
+    return [
+      {
+        // Always revalidate the service worker so cache version bumps roll out.
+        source: '/sw.js',
+        headers: [
+          { key: 'Cache-Control', value: 'no-cache, no-store, must-revalidate' },
+          { key: 'Service-Worker-Allowed', value: '/' },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,106 @@
+/**
+ * Pose inference worker — runs MediaPipe Pose off the main thread so the preview
+ * and overlay keep their frame rate while the model works.
+ *
+ * Classic worker: the legacy @mediapipe/pose bundle loads its WASM through importScripts
+ * and renders into an OffscreenCanvas when there is no window.
+ *
+ * Protocol (see lib/pose-estimator-worker.ts):
+ *   in:  { type: 'init', assetBaseUrl, modelComplexity, smoothLandmarks }
+ *        { type: 'frame', id, bitmap, timestamp }   (bitmap is transferred and closed here)
+ *        { type: 'segment', id, bitmap, timestamp } (one still with enableSegmentation on)
+ *   out: { type: 'ready' } | { type: 'error', message }
+ *        { type: 'result', id, landmarks, timestamp, inferenceMs }
+ *        { type: 'mask', id, mask }                 (mask is a transferred ImageBitmap, or null)
+ */
+
+let pose = null;
+let latest = null;
+let latestMask = null;
+let wantMask = false;
+/** Frames are sent one at a time: `latest` is shared between send() and onResults. */
+let queue = Promise.resolve();
+
+async function init({ assetBaseUrl, modelComplexity, smoothLandmarks = true }) {
+  importScripts(`${assetBaseUrl}/pose.js`);
+  const instance = new self.Pose({ locateFile: (file) => `${assetBaseUrl}/${file}` });
+  instance.setOptions({
+    modelComplexity,
+    smoothLandmarks,
+    minDetectionConfidence: 0.5,
+    minTrackingConfidence: 0.5,
+  });
+  instance.onResults((results) => {
+    latest = results.poseLandmarks ? [...results.poseLandmarks] : null;
+    latestMask = wantMask && results.poseLandmarks && results.segmentationMask ? copyMask(results.segmentationMask) : null;
+  });
+  await instance.initialize();
+  pose = instance;
+}
+
+/** MediaPipe reuses its output canvas; copy the mask into a bitmap we can transfer. */
+function copyMask(source) {
+  const canvas = new OffscreenCanvas(source.width, source.height);
+  canvas.getContext('2d').drawImage(source, 0, 0);
+  return canvas.transferToImageBitmap();
+}
+
+async function segment({ id, bitmap, timestamp }) {
+  try {
+    latestMask = null;
+    wantMask = true;
+    pose.setOptions({ enableSegmentation: true });
+    try {
+      await pose.send({ image: bitmap }, timestamp);
+    } finally {
+      wantMask = false;
+      pose.setOptions({ enableSegmentation: false });
+    }
+    const mask = latestMask;
+    latestMask = null;
+    self.postMessage({ type: 'mask', id, mask }, mask ? [mask] : []);
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function estimate({ id, bitmap, timestamp }) {
+  const start = performance.now();
+  try {
+    latest = null;
+    // onResults fires before send() resolves; the timestamp keeps landmark smoothing in step with capture time.
+    await pose.send({ image: bitmap }, timestamp);
+    self.postMessage({ type: 'result', id, landmarks: latest, timestamp, inferenceMs: performance.now() - start });
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = (event) => {
+  const message = event.data;
+  if (message.type === 'init') {
+    init(message)
+      .then(() => self.postMessage({ type: 'ready' }))
+      .catch((err) => self.postMessage({ type: 'error', message: err?.message ?? 'Pose model failed to load' }));
+  } else if (message.type === 'frame') {
+    if (!pose) {
+      message.bitmap.close();
+      self.postMessage({ type: 'result', id: message.id, landmarks: null, timestamp: message.timestamp, inferenceMs: 0 });
+      return;
+    }
+    queue = queue.then(() => estimate(message)).catch((err) => {
+      self.postMessage({ type: 'result', id: message.id, landmarks: null, timestamp: message.timestamp, inferenceMs: 0 });
+      console.error('pose-worker:', err);
+    });
+  } else if (message.type === 'segment') {
+    if (!pose) {
+      message.bitmap.close();
+      self.postMessage({ type: 'mask', id: message.id, mask: null });
+      return;
+    }
+    queue = queue.then(() => segment(message)).catch((err) => {
+      self.postMessage({ type: 'mask', id: message.id, mask: null });
+      console.error('pose-worker:', err);
+    });
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * SHOOT service worker — makes browse → camera → capture work offline once loaded.
+ *
+ * Install: precaches the app shell pages (plus the /_next/static chunks they reference),
+ * the pose catalog and the self-hosted MediaPipe model listed in /precache-manifest.json.
+ * Runtime: hashed /_next/static and model files are cache-first; pages are network-first
+ * with the cached copy as fallback; other same-origin GETs are stale-while-revalidate.
+ */
+
+const CACHE_VERSION = 'shoot-v3';
+const SHELL_PAGES = ['/', '/camera', '/gallery', '/saved'];
+const SHELL_ASSETS = ['/manifest.webmanifest', '/icon.svg', '/favicon.ico', '/pose-worker.js'];
+
+/** Cache only real pages: a redirect (e.g. to /login when signed out) must not replace /camera. */
+function isCacheable(response) {
+  return response && response.ok && !response.redirected && response.type === 'basic';
+}
+
+async function cacheShellPage(cache, path) {
+  try {
+    const response = await fetch(path, { credentials: 'same-origin' });
+    if (!isCacheable(response)) return;
+    const html = await response.clone().text();
+    await cache.put(path, response);
+    const chunks = [...new Set(html.match(/\/_next\/static\/[^"'\s)]+/g) ?? [])];
+    await Promise.all(chunks.map((chunk) => cache.add(chunk).catch(() => {})));
+  } catch {
+    // Offline during install: the page is cached the next time it loads.
+  }
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(CACHE_VERSION);
+      const manifest = await fetch('/precache-manifest.json')
+        .then((res) => (res.ok ? res.json() : { model: [], poses: [] }))
+        .catch(() => ({ model: [], poses: [] }));
+      await Promise.all(
+        [...SHELL_ASSETS, ...manifest.model, ...manifest.poses].map((url) => cache.add(url).catch(() => {}))
+      );
+      await Promise.all(SHELL_PAGES.map((path) => cacheShellPage(cache, path)));
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const keys = await caches.keys();
+      await Promise.all(keys.filter((key) => key !== CACHE_VERSION).map((key) => caches.delete(key)));
+      await self.clients.claim();
+    })()
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (isCacheable(response)) {
+    const cache = await caches.open(CACHE_VERSION);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_VERSION);
+  try {
+    const response = await fetch(request);
+    if (isCacheable(response)) cache.put(request, response.clone());
+    return response;
+  } catch (err) {
+    const url = new URL(request.url);
+    const cached = (await cache.match(request, { ignoreSearch: true })) ?? (await cache.match(url.pathname));
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function staleWhileRevalidate(request) {
+  const cache = await caches.open(CACHE_VERSION);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then((response) => {
+      if (isCacheable(response)) cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached ?? network;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  // Supabase and other cross-origin calls go straight to the network.
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith('/_next/static/') || url.pathname.startsWith('/mediapipe/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  } else if (!url.pathname.startsWith('/_next/') && !url.pathname.startsWith('/api/')) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+/**
+ * check-fixture-replay.mjs — Replay a recorded landmark stream through the matching pipeline.
+ *
+ * public/fixtures/standing-sway.json goes through the mock estimator, the One-Euro filter and
+ * computePoseMatch, exactly as the camera does with `?estimator=mock`, scored against its own
+ * first frame. Fails unless two runs agree frame for frame, the opening frames match and the
+ * score falls as the right forearm rises. No camera, browser or model download.
+ */
+
+import { readFileSync } from 'node:fs';
+import { register } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+register('./ts-hooks.mjs', import.meta.url);
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const FIXTURE = 'standing-sway';
+/** Replayed at the camera's frame rate, on fixed timestamps so the filter runs the same every time. */
+const FRAME_MS = 1000 / 30;
+/** Frame 0 is the template, so the first frames should be near-perfect matches. */
+const MIN_OPENING_SCORE = 95;
+/** By the end the forearm is raised well away from the template. */
+const MIN_SCORE_DROP = 15;
+
+const lib = (file) => import(pathToFileURL(join(ROOT, 'lib', file)).href);
+const { createMockEstimator } = await lib('pose-estimator-mock.ts');
+const { createLandmarkFilter, DEFAULT_ONE_EURO_PARAMS } = await lib('landmark-filter.ts');
+const { computePoseMatch } = await lib('pose-matching.ts');
+
+const fixture = JSON.parse(readFileSync(join(ROOT, 'public', 'fixtures', `${FIXTURE}.json`), 'utf8'));
+const template = fixture.frames[0];
+
+async function replay() {
+  const estimator = createMockEstimator(fixture, { loop: false });
+  await estimator.ready();
+  const filter = createLandmarkFilter(DEFAULT_ONE_EURO_PARAMS);
+  const scores = [];
+  for (let i = 0; i < fixture.frames.length; i++) {
+    const landmarks = filter.filter(await estimator.estimate(null), i * FRAME_MS);
+    scores.push(computePoseMatch(template, landmarks, null).score);
+  }
+  const overrun = await estimator.estimate(null);
+  estimator.close();
+  return { scores, overrun };
+}
+
+const first = await replay();
+const second = await replay();
+const { scores } = first;
+const opening = scores[0];
+const closing = scores[scores.length - 1];
+
+const problems = [];
+if (!scores.length) problems.push('fixture has no frames');
+const outOfRange = scores.findIndex((s) => !Number.isFinite(s) || s < 0 || s > 100);
+if (outOfRange >= 0) problems.push(`frame ${outOfRange}: score ${scores[outOfRange]} is outside 0–100`);
+if (scores.some((s, i) => s !== second.scores[i])) problems.push('two replays gave different scores');
+if (first.overrun !== null) problems.push('a non-looping replay returned landmarks past the last frame');
+if (!(opening >= MIN_OPENING_SCORE)) problems.push(`frame 0 scored ${opening} against itself (want ≥ ${MIN_OPENING_SCORE})`);
+if (!(opening - closing >= MIN_SCORE_DROP)) problems.push(`score only fell from ${opening} to ${closing} as the forearm rose (want ≥ ${MIN_SCORE_DROP} points)`);
+
+if (problems.length) {
+  console.error(`Fixture replay of ${FIXTURE} failed:\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+console.log(`Replayed ${scores.length} frames of ${FIXTURE}: score ${opening} → ${closing}, identical across runs.`);
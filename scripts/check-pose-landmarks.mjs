@@ -0,0 +1,34 @@
+#!/usr/bin/env node
+/**
+ * check-pose-landmarks.mjs — Fail when a catalog pose has no precomputed skeleton.
+ *
+ * Every id in lib/poses.ts needs an entry in lib/pose-landmarks.json (33 landmarks and
+ * the image size); otherwise the camera silently falls back to extracting it live.
+ * Run `npm run extract-poses` to regenerate. Runs on prebuild.
+ */
+
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const POSE_LANDMARK_COUNT = 33;
+
+// Same id pattern as scripts/extract_pose_landmarks.py.
+const ids = [...readFileSync(join(ROOT, 'lib', 'poses.ts'), 'utf8').matchAll(/id:\s*'([^']+)'[\s\S]*?imageUrl:\s*'[^']+'/g)].map((m) => m[1]);
+const precomputed = JSON.parse(readFileSync(join(ROOT, 'lib', 'pose-landmarks.json'), 'utf8'));
+
+const problems = ids.flatMap((id) => {
+  const entry = precomputed[id];
+  if (!entry) return [`${id}: missing`];
+  if (entry.landmarks?.length !== POSE_LANDMARK_COUNT) return [`${id}: expected ${POSE_LANDMARK_COUNT} landmarks`];
+  if (!(entry.imageSize?.width > 0 && entry.imageSize?.height > 0)) return [`${id}: missing imageSize`];
+  return [];
+});
+
+if (!ids.length) problems.push('no catalog poses found in lib/poses.ts');
+if (problems.length) {
+  console.error(`lib/pose-landmarks.json is out of date (run \`npm run extract-poses\`):\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+console.log(`Precomputed landmarks for all ${ids.length} catalog poses.`);
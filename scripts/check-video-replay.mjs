@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * check-video-replay.mjs — Score a fixture as if it were a video file, with no camera or browser.
+ *
+ * public/fixtures/standing-sway.json stands in for the decoded frames: lib/video-analysis.ts
+ * samples it at VIDEO_SAMPLE_FPS, runs each frame through a fresh mock estimator, the One-Euro
+ * filter and computePoseMatch (frame 0 is the template), then picks the top frames. Fails unless
+ * two runs give the same timeline, the estimator only sees video time, the top frames come from
+ * the opening and an abort stops scoring where it is.
+ */
+
+import { readFileSync } from 'node:fs';
+import { register } from 'node:module';
+import { dirname, join } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+register('./ts-hooks.mjs', import.meta.url);
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const FIXTURE = 'standing-sway';
+/** Frame 0 is the template, so the best frame should be a near-perfect match. */
+const MIN_TOP_SCORE = 95;
+const ABORT_AFTER = 10;
+
+const lib = (file) => import(pathToFileURL(join(ROOT, 'lib', file)).href);
+const { createMockEstimator } = await lib('pose-estimator-mock.ts');
+const { computePoseMatch } = await lib('pose-matching.ts');
+const { getSampleTimes, pickTopFrames, scoreFrames, VIDEO_SAMPLE_FPS } = await lib('video-analysis.ts');
+
+const fixture = JSON.parse(readFileSync(join(ROOT, 'public', 'fixtures', `${FIXTURE}.json`), 'utf8'));
+const template = fixture.frames[0];
+// One fixture frame per sample.
+const times = getSampleTimes((fixture.frames.length - 1) / VIDEO_SAMPLE_FPS);
+const scoreFrame = (landmarks) => computePoseMatch(template, landmarks, null, { mirrored: false }).score;
+
+/** Score the fixture with its own estimator, as the camera page does per file; records the timestamps it was given. */
+async function analyze(options) {
+  const mock = createMockEstimator(fixture, { loop: false });
+  const stamps = [];
+  const estimator = {
+    ...mock,
+    estimate(image, timestampMs) {
+      stamps.push(timestampMs);
+      return mock.estimate(image, timestampMs);
+    },
+  };
+  try {
+    await mock.ready();
+    const samples = await scoreFrames(times, async () => null, estimator, scoreFrame, options);
+    return { samples, stamps };
+  } finally {
+    mock.close();
+  }
+}
+
+const first = await analyze();
+const second = await analyze();
+const controller = new AbortController();
+const aborted = await analyze({
+  signal: controller.signal,
+  onProgress: (progress) => progress >= ABORT_AFTER / times.length && controller.abort(),
+});
+const timeline = first.samples.map(({ t, score }) => `${t}:${score}`);
+const top = pickTopFrames(first.samples);
+
+const problems = [];
+if (times.length !== fixture.frames.length) problems.push(`sampled ${times.length} frames from a ${fixture.frames.length}-frame fixture`);
+if (first.samples.length !== times.length) problems.push(`scored ${first.samples.length} of ${times.length} frames`);
+if (timeline.some((entry, i) => entry !== `${second.samples[i]?.t}:${second.samples[i]?.score}`)) problems.push('two runs gave different timelines');
+if (first.stamps.some((stamp, i) => stamp !== times[i])) problems.push('the estimator was not given video-time timestamps');
+if (!top.length || !(top[0].score >= MIN_TOP_SCORE)) problems.push(`best frame scored ${top[0]?.score ?? 'nothing'} (want ≥ ${MIN_TOP_SCORE})`);
+else if (top[0].t !== 0) problems.push(`best frame is at ${top[0].t} ms, not the template frame`);
+if (top.some((a, i) => top.slice(i + 1).some((b) => Math.abs(a.t - b.t) < 500))) problems.push('top frames are closer than 0.5 s');
+if (aborted.samples.length !== ABORT_AFTER) problems.push(`abort after ${ABORT_AFTER} frames kept ${aborted.samples.length}`);
+
+if (problems.length) {
+  console.error(`Video replay of ${FIXTURE} failed:\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+console.log(
+  `Scored ${times.length} frames of ${FIXTURE} as a video: same timeline twice, ` +
+    `top frames at ${top.map((s) => `${s.t} ms (${s.score})`).join(', ')}.`
+);
@@ -0,0 +1,81 @@
+#!/usr/bin/env python3
+"""
+extract_pose_landmarks.py — Precompute template skeletons for the pose catalog.
+
+Runs MediaPipe Pose (same 33-landmark model family as the camera page) on every
+image referenced in lib/poses.ts and writes lib/pose-landmarks.json, keyed by
+pose id. The camera page uses these instead of extracting in the browser, so
+catalog poses load instantly and score the same on every run.
+
+Usage:
+  pip install mediapipe pillow
+  npm run extract-poses          # or: python3 scripts/extract_pose_landmarks.py
+
+Re-run whenever an image in public/poses/ or an entry in lib/poses.ts changes.
+"""
+
+import json
+import re
+import sys
+from pathlib import Path
+
+import mediapipe as mp
+import numpy as np
+from PIL import Image
+
+ROOT = Path(__file__).resolve().parent.parent
+POSES_TS = ROOT / "lib" / "poses.ts"
+PUBLIC_DIR = ROOT / "public"
+OUT_PATH = ROOT / "lib" / "pose-landmarks.json"
+
+# id/imageUrl pairs from the POSE_TEMPLATES literal.
+ENTRY_RE = re.compile(r"id:\s*'([^']+)'.*?imageUrl:\s*'([^']+)'", re.S)
+
+
+def extract(pose, image_path: Path):
+    image = Image.open(image_path).convert("RGB")
+    results = pose.process(np.asarray(image))
+    if not results.pose_landmarks:
+        return None
+    landmarks = [
+        {
+            "x": round(l.x, 5),
+            "y": round(l.y, 5),
+            "z": round(l.z, 5),
+            "visibility": round(l.visibility, 4),
+        }
+        for l in results.pose_landmarks.landmark
+    ]
+    return {"imageSize": {"width": image.width, "height": image.height}, "landmarks": landmarks}
+
+
+def main() -> int:
+    entries = ENTRY_RE.findall(POSES_TS.read_text())
+    if not entries:
+        print(f"No pose entries found in {POSES_TS}", file=sys.stderr)
+        return 1
+
+    output = {}
+    missing = []
+    with mp.solutions.pose.Pose(static_image_mode=True, model_complexity=2) as pose:
+        for pose_id, image_url in entries:
+            image_path = PUBLIC_DIR / image_url.lstrip("/")
+            result = extract(pose, image_path)
+            if result is None:
+                print(f"  {pose_id}: no pose detected, skipped (camera will extract live)")
+                missing.append(pose_id)
+                continue
+            output[pose_id] = result
+            print(f"  {pose_id}: ok")
+
+    OUT_PATH.write_text(json.dumps(output, indent=2) + "\n")
+    print(f"Wrote {len(output)}/{len(entries)} poses to {OUT_PATH.relative_to(ROOT)}")
+    if missing:
+        # npm run check-poses (prebuild) fails on these too.
+        print(f"No skeleton for: {', '.join(missing)}", file=sys.stderr)
+        return 1
+    return 0
+
+
+if __name__ == "__main__":
+    sys.exit(main())
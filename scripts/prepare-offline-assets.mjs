@@ -0,0 +1,58 @@
+#!/usr/bin/env node
+/**
+ * prepare-offline-assets.mjs — Self-host MediaPipe and list what the service worker precaches.
+ *
+ * 1. Copies the @mediapipe/pose runtime (WASM, loader, lite model) from node_modules
+ *    into public/mediapipe/pose/, so the camera never reaches out to a CDN. pose.js itself
+ *    is included for public/pose-worker.js, which loads it with importScripts.
+ * 2. Writes public/precache-manifest.json: the pose catalog images and model files
+ *    that public/sw.js caches on install.
+ *
+ * Runs on postinstall and prebuild; both outputs are generated (git-ignored).
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const SOURCE_DIR = join(ROOT, 'node_modules', '@mediapipe', 'pose');
+const PUBLIC_DIR = join(ROOT, 'public');
+const MODEL_DIR = join(PUBLIC_DIR, 'mediapipe', 'pose');
+const POSES_DIR = join(PUBLIC_DIR, 'poses');
+
+// The camera runs modelComplexity 0 (lite); full/heavy models are left out to keep the cache small.
+const MODEL_FILES = [
+  'pose.js',
+  'pose_solution_packed_assets.data',
+  'pose_solution_packed_assets_loader.js',
+  'pose_solution_simd_wasm_bin.data',
+  'pose_solution_simd_wasm_bin.js',
+  'pose_solution_simd_wasm_bin.wasm',
+  'pose_solution_wasm_bin.js',
+  'pose_solution_wasm_bin.wasm',
+  'pose_web.binarypb',
+  'pose_landmark_lite.tflite',
+];
+
+if (!existsSync(SOURCE_DIR)) {
+  console.warn('prepare-offline-assets: @mediapipe/pose not installed, skipping');
+  process.exit(0);
+}
+
+mkdirSync(MODEL_DIR, { recursive: true });
+for (const file of MODEL_FILES) {
+  copyFileSync(join(SOURCE_DIR, file), join(MODEL_DIR, file));
+}
+
+const poseImages = existsSync(POSES_DIR)
+  ? readdirSync(POSES_DIR).filter((f) => /\.(jpe?g|png|webp)$/i.test(f)).map((f) => `/poses/${f}`)
+  : [];
+
+const manifest = {
+  model: MODEL_FILES.map((f) => `/mediapipe/pose/${f}`),
+  poses: poseImages,
+};
+writeFileSync(join(PUBLIC_DIR, 'precache-manifest.json'), JSON.stringify(manifest, null, 2) + '\n');
+
+console.log(`prepare-offline-assets: ${MODEL_FILES.length} model files, ${poseImages.length} pose images`);
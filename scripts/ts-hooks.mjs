@@ -0,0 +1,33 @@
+/**
+ * ts-hooks.mjs — Node module hooks so scripts can import lib/*.ts directly.
+ *
+ * Extensionless relative imports resolve to .ts files, which are transpiled to ESM with
+ * the project's own TypeScript (types are stripped, not checked — `tsc` does that).
+ * Register with `register('./ts-hooks.mjs', import.meta.url)` before importing lib code.
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import ts from 'typescript';
+
+export async function resolve(specifier, context, nextResolve) {
+  if (/^\.\.?\//.test(specifier) && !/\.[cm]?[jt]s$|\.json$/.test(specifier) && context.parentURL) {
+    const url = new URL(`${specifier}.ts`, context.parentURL);
+    if (existsSync(fileURLToPath(url))) return { url: url.href, shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+}
+
+export async function load(url, context, nextLoad) {
+  if (url.endsWith('.ts')) {
+    const { outputText } = ts.transpileModule(readFileSync(fileURLToPath(url), 'utf8'), {
+      fileName: fileURLToPath(url),
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022, isolatedModules: true },
+    });
+    return { format: 'module', source: outputText, shortCircuit: true };
+  }
+  if (url.endsWith('.json') && url.startsWith('file:')) {
+    return { format: 'module', source: `export default ${readFileSync(fileURLToPath(url), 'utf8')};`, shortCircuit: true };
+  }
+  return nextLoad(url, context);
+}